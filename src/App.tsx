@@ -1,43 +1,74 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { TokenInput } from "@/components/token-input"
 import { OrganizationSelector } from "@/components/organization-selector"
 import { RepositoryGrid } from "@/components/repository-grid"
+import { CapabilityReport } from "@/components/capability-report"
 import { GitHubIcon } from "@/components/icons"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
-import { Toaster } from "@/components/ui/sonner"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { createGitHubClient, describeError, isUnauthorizedError } from "@/lib/github-client"
+import { getRequestScheduler } from "@/lib/request-scheduler"
+import { useRateLimit } from "@/hooks/use-github-client"
+import { useInstallationToken } from "@/hooks/use-installation-token"
+import { useTokenCapabilities } from "@/hooks/use-token-capabilities"
+import { toast } from "@/hooks/use-toast"
+import { createGitHubAppAuth, type AppCredentials, type GitHubAppAuth } from "@/lib/github-app-auth"
+import type { Organization } from "@/lib/github-types"
+import { loadTokenCapabilities } from "@/lib/token-capabilities"
+import { Toaster } from "@/components/ui/toaster"
+import { Toaster as SonnerToaster } from "@/components/ui/sonner"
 import { ThemeProvider } from "@/components/theme-provider"
 
-interface Organization {
-  id: number
-  login: string
-  avatar_url: string
-  description?: string
-}
-
 function App() {
   const [token, setToken] = useState<string>("")
   const [organizations, setOrganizations] = useState<Organization[]>([])
   const [selectedOrg, setSelectedOrg] = useState<Organization | null>(null)
   const [loading, setLoading] = useState(false)
+  // GitHub App mode: organizations come from the app's installations, each with its own token
+  const [appAuth, setAppAuth] = useState<GitHubAppAuth | null>(null)
+  const [installationIds, setInstallationIds] = useState<Record<string, number>>({})
+  const [installationId, setInstallationId] = useState<number | null>(null)
+  const installationToken = useInstallationToken(appAuth, installationId, (message) =>
+    toast({
+      title: "Error",
+      description: `Failed to fetch an installation token: ${message}`,
+      variant: "destructive",
+    }),
+  )
+  const activeToken = appAuth ? installationToken : token
+  const rateLimit = useRateLimit(activeToken)
+  const capabilities = useTokenCapabilities(activeToken)
+  const [isPermissionsOpen, setIsPermissionsOpen] = useState(false)
+
+  useEffect(() => {
+    if (!activeToken) {
+      return
+    }
+    const client = createGitHubClient({ token: activeToken, transport: getRequestScheduler(activeToken).transport })
+    loadTokenCapabilities(client, activeToken).catch((error) => console.error("Error reading token scopes:", error))
+  }, [activeToken])
 
   const fetchOrganizations = async (githubToken: string) => {
     setLoading(true)
     try {
-      const response = await fetch(`${getGitHubApiUrl()}/user/orgs`, {
-        headers: getGitHubHeaders(githubToken),
+      const client = createGitHubClient({ token: githubToken, transport: getRequestScheduler(githubToken).transport })
+      await client.listOrganizations((_page, loaded) => {
+        setOrganizations(loaded)
+        setLoading(false)
       })
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch organizations")
-      }
-
-      const orgs = await response.json()
-      setOrganizations(orgs)
     } catch (error) {
       console.error("Error fetching organizations:", error)
-      setToken("")
+      toast({
+        title: "Error",
+        description: `Failed to fetch organizations: ${describeError(error)}`,
+        variant: "destructive",
+      })
+      // Only a rejected token sends the user back to the token form; otherwise the capability
+      // report explains what the token is missing
+      if (isUnauthorizedError(error)) {
+        setToken("")
+      }
     } finally {
       setLoading(false)
     }
@@ -48,13 +79,45 @@ function App() {
     fetchOrganizations(newToken)
   }
 
+  const handleAppSubmit = async (credentials: AppCredentials) => {
+    setLoading(true)
+    try {
+      const auth = createGitHubAppAuth(credentials)
+      const installations = (await auth.listInstallations()).filter(
+        (installation) => installation.account.type === "Organization",
+      )
+      setInstallationIds(
+        Object.fromEntries(installations.map((installation) => [installation.account.login, installation.id])),
+      )
+      setOrganizations(
+        installations.map(({ account }) => ({ id: account.id, login: account.login, avatar_url: account.avatar_url })),
+      )
+      setAppAuth(auth)
+    } catch (error) {
+      console.error("Error authenticating as GitHub App:", error)
+      toast({
+        title: "Error",
+        description: `Failed to authenticate as GitHub App: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleTokenClear = () => {
     setToken("")
+    setAppAuth(null)
+    setInstallationIds({})
+    setInstallationId(null)
     setOrganizations([])
     setSelectedOrg(null)
   }
 
   const handleOrgSelect = (org: Organization) => {
+    if (appAuth) {
+      setInstallationId(installationIds[org.login] ?? null)
+    }
     setSelectedOrg(org)
   }
 
@@ -71,29 +134,83 @@ function App() {
                   <p className="text-sm text-muted-foreground">Manage repositories, environments, and secrets</p>
                 </div>
               </div>
-              {token && (
-                <button
-                  onClick={handleTokenClear}
-                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  Clear Token
-                </button>
+              {(token || appAuth) && (
+                <div className="flex items-center gap-4">
+                  {rateLimit && (
+                    <span
+                      className={`text-xs ${rateLimit.remaining < rateLimit.limit * 0.1 ? "text-destructive" : "text-muted-foreground"}`}
+                      title={
+                        rateLimit.resetAt ? `Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}` : undefined
+                      }
+                    >
+                      API quota: {rateLimit.remaining}/{rateLimit.limit}
+                    </span>
+                  )}
+                  {capabilities && (
+                    <button
+                      onClick={() => setIsPermissionsOpen(true)}
+                      className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      Permissions
+                    </button>
+                  )}
+                  <button
+                    onClick={handleTokenClear}
+                    className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {appAuth ? "Disconnect App" : "Clear Token"}
+                  </button>
+                </div>
               )}
             </div>
           </div>
         </header>
 
         <main className="container mx-auto px-6 py-8">
-          {!token ? (
-            <TokenInput onSubmit={handleTokenSubmit} loading={loading} />
+          {!token && !appAuth ? (
+            <TokenInput onSubmit={handleTokenSubmit} onAppSubmit={handleAppSubmit} loading={loading} />
           ) : !selectedOrg ? (
-            <OrganizationSelector organizations={organizations} onSelect={handleOrgSelect} loading={loading} />
+            <div className="space-y-8">
+              <OrganizationSelector organizations={organizations} onSelect={handleOrgSelect} loading={loading} />
+              {capabilities && (
+                <div className="max-w-2xl mx-auto">
+                  <CapabilityReport capabilities={capabilities} />
+                </div>
+              )}
+            </div>
+          ) : !activeToken ? (
+            <div className="flex items-center justify-center min-h-[40vh]">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-muted-foreground">Fetching installation token...</p>
+              </div>
+            </div>
           ) : (
-            <RepositoryGrid organization={selectedOrg} token={token} onBack={() => setSelectedOrg(null)} />
+            <RepositoryGrid
+              organization={selectedOrg}
+              token={activeToken}
+              onBack={() => {
+                setSelectedOrg(null)
+                setInstallationId(null)
+              }}
+            />
           )}
         </main>
 
+        <Dialog open={isPermissionsOpen && !!capabilities} onOpenChange={setIsPermissionsOpen}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Token Permissions</DialogTitle>
+              <DialogDescription>
+                What the current token can do. Actions it cannot perform are disabled across the app.
+              </DialogDescription>
+            </DialogHeader>
+            {capabilities && <CapabilityReport capabilities={capabilities} />}
+          </DialogContent>
+        </Dialog>
+
         <Toaster />
+        <SonnerToaster />
       </div>
     </ThemeProvider>
   )
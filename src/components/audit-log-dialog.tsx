@@ -0,0 +1,182 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ListIcon } from "@/components/icons"
+import { useAuditLog } from "@/hooks/use-audit-log"
+import {
+  auditEntriesToCsv,
+  auditEntriesToJson,
+  DEFAULT_AUDIT_FILTER,
+  filterAuditEntries,
+  type AuditFilter,
+} from "@/lib/audit-log"
+import type { WriteObjectType } from "@/lib/github-client"
+
+interface AuditLogDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Preselected in the organization filter
+  organization?: string
+}
+
+const OBJECT_TYPE_LABELS: Record<WriteObjectType, string> = {
+  secret: "Secret",
+  variable: "Variable",
+  environment: "Environment",
+  "deployment-branch-policy": "Branch policy",
+  "secret-access": "Secret access",
+}
+
+export function AuditLogDialog({ isOpen, onClose, organization }: AuditLogDialogProps) {
+  const entries = useAuditLog()
+  const [filter, setFilter] = useState<AuditFilter>(DEFAULT_AUDIT_FILTER)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFilter({ ...DEFAULT_AUDIT_FILTER, organization: organization || "all" })
+    }
+  }, [isOpen, organization])
+
+  const update = (changes: Partial<AuditFilter>) => setFilter({ ...filter, ...changes })
+
+  const organizations = Array.from(new Set(entries.map((entry) => entry.owner))).sort()
+  const filtered = filterAuditEntries(entries, filter)
+  const newestFirst = [...filtered].reverse()
+
+  const download = (format: "json" | "csv") => {
+    const text = format === "json" ? auditEntriesToJson(filtered) : auditEntriesToCsv(filtered)
+    const url = URL.createObjectURL(new Blob([text], { type: format === "json" ? "application/json" : "text/csv" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListIcon className="h-5 w-5" />
+            Audit Log
+          </DialogTitle>
+          <DialogDescription>
+            Every create, update and delete made from this browser. Secret values are never recorded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Search name, repository, environment..."
+              value={filter.query}
+              onChange={(e) => update({ query: e.target.value })}
+              className="h-8 w-64 text-sm"
+            />
+            <Select value={filter.organization} onValueChange={(value) => update({ organization: value })}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All organizations</SelectItem>
+                {organizations.map((org) => (
+                  <SelectItem key={org} value={org}>
+                    {org}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filter.objectType} onValueChange={(value) => update({ objectType: value })}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {Object.entries(OBJECT_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filter.outcome} onValueChange={(value) => update({ outcome: value })}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All outcomes</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="failure">Failure</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs h-8 bg-transparent"
+                onClick={() => download("json")}
+                disabled={filtered.length === 0}
+              >
+                Export JSON
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs h-8 bg-transparent"
+                onClick={() => download("csv")}
+                disabled={filtered.length === 0}
+              >
+                Export CSV
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {filtered.length} of {entries.length} entries
+          </p>
+
+          {newestFirst.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No matching entries</p>
+          ) : (
+            <ScrollArea className="h-[50vh]">
+              <div className="space-y-2">
+                {newestFirst.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-4 p-2 border rounded-lg text-xs">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={entry.outcome === "success" ? "default" : "destructive"} className="text-xs">
+                        {entry.outcome === "success" ? "Success" : "Failed"}
+                      </Badge>
+                      <span className="capitalize">{entry.action}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {OBJECT_TYPE_LABELS[entry.objectType]}
+                      </Badge>
+                      <span className="font-mono font-medium truncate">{entry.name}</span>
+                      <span className="text-muted-foreground truncate">
+                        {[entry.owner, entry.repository, entry.environment].filter(Boolean).join(" / ")}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {entry.error && (
+                        <span className="text-destructive truncate max-w-64" title={entry.error}>
+                          {entry.error}
+                        </span>
+                      )}
+                      <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
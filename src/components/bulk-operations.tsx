@@ -20,9 +20,46 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { PlusIcon, SettingsIcon } from "@/components/icons"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { EditIcon, PlusIcon, SettingsIcon, TrashIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { EnvironmentPicker } from "@/components/environment-picker"
 import { toast } from "@/hooks/use-toast"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
+import { useJob } from "@/hooks/use-jobs"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useTokenCapabilities } from "@/hooks/use-token-capabilities"
+import { capabilityBlocker } from "@/lib/token-capabilities"
+import { CapabilityNotice } from "@/components/capability-report"
+import { describeError } from "@/lib/github-client"
+import { environmentScope } from "@/lib/github-types"
+import { probeTarget, summarizeProbes, type BulkItemKind, type TargetProbe } from "@/lib/bulk-probe"
+import {
+  deleteItem,
+  EXISTING_VARIABLE_POLICIES,
+  renameItem,
+  upsertVariable,
+  type ExistingVariablePolicy,
+  type WriteOutcome,
+} from "@/lib/bulk-actions"
+import { countTasks, startJob, type Job, type JobTaskInput } from "@/lib/job-engine"
+import {
+  countRepositoriesPerEnvironment,
+  environmentNames,
+  existingTargets,
+  type EnvironmentsByRepository,
+} from "@/lib/environment-names"
 
 interface Repository {
   name: string
@@ -33,6 +70,10 @@ interface BulkOperationsProps {
   organization: string
   token: string
   repositories: Repository[]
+  // The repositories were narrowed down by the grid filter
+  isFiltered?: boolean
+  // Environment names per repository; offered as targets instead of a fixed list
+  environments?: EnvironmentsByRepository
   isOpen?: boolean
   onClose?: () => void
   preset?: { repo?: string; env?: string } | null
@@ -40,25 +81,25 @@ interface BulkOperationsProps {
   trigger?: React.ReactNode
 }
 
-interface OperationResult {
-  repo: string
-  environment: string
-  success: boolean
-  error?: string
-}
-
-const COMMON_ENVIRONMENTS = ["production", "staging", "development", "preview"]
+type ModifyAction = "delete" | "rename"
 
 export function BulkOperations({
   organization,
   token,
   repositories,
+  isFiltered,
+  environments = {},
   isOpen: controlledIsOpen,
   onClose: controlledOnClose,
   preset,
   onEnvironmentCreated,
   trigger,
 }: BulkOperationsProps) {
+  const client = useGitHubClient(token)
+  const capabilities = useTokenCapabilities(token)
+  const writeBlocker = capabilityBlocker(capabilities, "repositorySecrets")
+  // Missing environments cannot be created, but existing ones can still be written to
+  const environmentBlocker = capabilityBlocker(capabilities, "environments")
   const [internalIsOpen, setInternalIsOpen] = useState(false)
   const [selectedRepos, setSelectedRepos] = useState<string[]>([])
   const [selectedEnvironments, setSelectedEnvironments] = useState<string[]>([])
@@ -66,10 +107,22 @@ export function BulkOperations({
   const [secretValue, setSecretValue] = useState("")
   const [variableName, setVariableName] = useState("")
   const [variableValue, setVariableValue] = useState("")
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [results, setResults] = useState<OperationResult[]>([])
+  const [isProbing, setIsProbing] = useState(false)
+  const [probeProgress, setProbeProgress] = useState(0)
+  const [jobId, setJobId] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState("secrets")
+  const [dryRun, setDryRun] = useState(true)
+  const [variablePolicy, setVariablePolicy] = useState<ExistingVariablePolicy>("overwrite")
+  const [modifyKind, setModifyKind] = useState<BulkItemKind>("secret")
+  const [modifyAction, setModifyAction] = useState<ModifyAction>("delete")
+  const [modifyName, setModifyName] = useState("")
+  const [renameTo, setRenameTo] = useState("")
+  const [renameSecretValue, setRenameSecretValue] = useState("")
+  const [probes, setProbes] = useState<TargetProbe[] | null>(null)
+  const [probeKind, setProbeKind] = useState<BulkItemKind>("secret")
+
+  const job = useJob(jobId)
+  const isProcessing = isProbing || job?.status === "running" || job?.status === "paused"
 
   const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen
   const setIsOpen = controlledOnClose ? (open: boolean) => !open && controlledOnClose() : setInternalIsOpen
@@ -85,6 +138,20 @@ export function BulkOperations({
     }
   }, [isOpen, preset])
 
+  // Any change to the inputs makes an earlier preview stale
+  useEffect(() => {
+    setProbes(null)
+  }, [
+    selectedRepos,
+    selectedEnvironments,
+    secretName,
+    secretValue,
+    variableName,
+    variableValue,
+    variablePolicy,
+    activeTab,
+  ])
+
   const handleRepoSelection = (repoName: string, checked: boolean) => {
     if (checked) {
       setSelectedRepos([...selectedRepos, repoName])
@@ -93,14 +160,6 @@ export function BulkOperations({
     }
   }
 
-  const handleEnvSelection = (envName: string, checked: boolean) => {
-    if (checked) {
-      setSelectedEnvironments([...selectedEnvironments, envName])
-    } else {
-      setSelectedEnvironments(selectedEnvironments.filter((e) => e !== envName))
-    }
-  }
-
   const selectAllRepos = () => {
     setSelectedRepos(repositories.map((r) => r.name))
   }
@@ -109,122 +168,115 @@ export function BulkOperations({
     setSelectedRepos([])
   }
 
-  const selectAllEnvs = () => {
-    setSelectedEnvironments([...COMMON_ENVIRONMENTS])
-  }
-
-  const clearAllEnvs = () => {
-    setSelectedEnvironments([])
-  }
-
-  const createEnvironmentIfNeeded = async (repoName: string, envName: string): Promise<boolean> => {
+  const ensureEnvironment = async (repoName: string, envName: string) => {
     try {
-      const checkResponse = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repoName}/environments/${envName}`,
-        {
-          headers: getGitHubHeaders(token),
-        },
-      )
-
-      if (checkResponse.status === 404) {
-        const createResponse = await fetch(
-          `${getGitHubApiUrl()}/repos/${organization}/${repoName}/environments/${envName}`,
-          {
-            method: "PUT",
-            headers: {
-              ...getGitHubHeaders(token),
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({}),
-          },
-        )
-        if (createResponse.ok && onEnvironmentCreated) {
-          onEnvironmentCreated()
+      if (!(await client.getEnvironment(organization, repoName, envName))) {
+        const blocker = capabilityBlocker(capabilities, "environments", { owner: organization, repository: repoName })
+        if (blocker) {
+          throw new Error(blocker)
         }
-        return createResponse.ok
+        await client.createOrUpdateEnvironment(organization, repoName, envName)
       }
-
-      return checkResponse.ok
     } catch (error) {
       console.error(`Error creating environment ${envName} for ${repoName}:`, error)
-      return false
+      throw new Error(`Failed to create/access environment: ${describeError(error)}`)
     }
   }
 
-  const bulkCreateSecrets = async () => {
-    if (!secretName.trim() || !secretValue.trim() || selectedRepos.length === 0 || selectedEnvironments.length === 0) {
-      return
-    }
-
-    setIsProcessing(true)
-    setProgress(0)
-    setResults([])
-
-    const totalOperations = selectedRepos.length * selectedEnvironments.length
-    let completedOperations = 0
-    const operationResults: OperationResult[] = []
-
-    for (const repo of selectedRepos) {
-      for (const env of selectedEnvironments) {
-        try {
-          const envCreated = await createEnvironmentIfNeeded(repo, env)
-          if (!envCreated) {
-            operationResults.push({
-              repo,
-              environment: env,
-              success: false,
-              error: "Failed to create/access environment",
-            })
-            completedOperations++
-            setProgress((completedOperations / totalOperations) * 100)
-            continue
-          }
-
-          const response = await fetch(
-            `${getGitHubApiUrl()}/repos/${organization}/${repo}/environments/${env}/secrets/${secretName}`,
-            {
-              method: "PUT",
-              headers: {
-                ...getGitHubHeaders(token),
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                encrypted_value: btoa(secretValue),
-              }),
-            },
-          )
-
-          operationResults.push({
-            repo,
-            environment: env,
-            success: response.ok,
-            error: response.ok ? undefined : `HTTP ${response.status}`,
-          })
-        } catch (error) {
-          operationResults.push({
-            repo,
-            environment: env,
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-          })
+  // Every selected repository/environment pair, or only those where the environment exists
+  // for operations that cannot create environments
+  const selectTargets = (existingOnly: boolean) =>
+    existingOnly
+      ? existingTargets(environments, selectedRepos, selectedEnvironments)
+      : selectedRepos.flatMap((repo) => selectedEnvironments.map((env) => ({ repo, env })))
+
+  // One task per target. Repositories where GitHub already refused a write fail without
+  // another request.
+  const targetTasks = (
+    run: (repo: string, env: string) => Promise<string | void>,
+    existingOnly = false,
+  ): JobTaskInput[] =>
+    selectTargets(existingOnly).map(({ repo, env }) => ({
+      label: `${repo}/${env}`,
+      run: async () => {
+        const blocker = capabilityBlocker(capabilities, "repositorySecrets", { owner: organization, repository: repo })
+        if (blocker) {
+          throw new Error(blocker)
         }
+        return run(repo, env)
+      },
+    }))
+
+  const modifyTargets = selectTargets(true)
+  // Creating writes only reach existing environments when the token cannot create new ones
+  const createTargetCount = selectTargets(!!environmentBlocker).length
+
+  const countOutcome = (finished: Job, outcome: WriteOutcome) =>
+    finished.tasks.filter((task) => task.status === "succeeded" && task.outcome === outcome).length
+
+  const runDryRun = async (kind: BulkItemKind) => {
+    const name = kind === "secret" ? secretName : variableName
+    // The same targets the write job will use, so the preview never lists environments it cannot create
+    const targets = selectTargets(!!environmentBlocker)
+    if (!name.trim() || targets.length === 0) return
+
+    setIsProbing(true)
+    setProbeProgress(0)
+    setJobId(null)
+    setProbes(null)
+
+    let completed = 0
+    const probeResults = await Promise.all(
+      targets.map(async ({ repo, env }) => {
+        const probe = await probeTarget(client, organization, repo, env, kind, name)
+        completed++
+        setProbeProgress((completed / targets.length) * 100)
+        return probe
+      }),
+    )
+
+    setProbeKind(kind)
+    setProbes(probeResults)
+    setIsProbing(false)
+  }
 
-        completedOperations++
-        setProgress((completedOperations / totalOperations) * 100)
-      }
+  const confirmDryRun = () => {
+    setProbes(null)
+    if (probeKind === "secret") {
+      bulkCreateSecrets()
+    } else {
+      bulkCreateVariables()
     }
+  }
 
-    setResults(operationResults)
-    setIsProcessing(false)
+  const bulkCreateSecrets = () => {
+    if (!secretName.trim() || !secretValue.trim() || selectedRepos.length === 0 || selectedEnvironments.length === 0) {
+      return
+    }
 
-    const successCount = operationResults.filter((r) => r.success).length
-    toast({
-      title: "Bulk Secret Creation Complete",
-      description: `Successfully created secret in ${successCount}/${totalOperations} locations`,
-    })
+    const name = secretName
+    const value = secretValue
+    const id = startJob(
+      `Create secret ${name}`,
+      targetTasks(async (repo, env) => {
+        await ensureEnvironment(repo, env)
+        await client.setSecret(environmentScope(organization, repo, env), name, value)
+      }, !!environmentBlocker),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          toast({
+            title: "Bulk Secret Creation Complete",
+            description: `Successfully created secret in ${counts.succeeded}/${counts.total} locations`,
+          })
+          onEnvironmentCreated?.()
+        },
+      },
+    )
+    setJobId(id)
   }
 
-  const bulkCreateVariables = async () => {
+  const bulkCreateVariables = () => {
     if (
       !variableName.trim() ||
       !variableValue.trim() ||
@@ -234,73 +286,61 @@ export function BulkOperations({
       return
     }
 
-    setIsProcessing(true)
-    setProgress(0)
-    setResults([])
-
-    const totalOperations = selectedRepos.length * selectedEnvironments.length
-    let completedOperations = 0
-    const operationResults: OperationResult[] = []
-
-    for (const repo of selectedRepos) {
-      for (const env of selectedEnvironments) {
-        try {
-          const envCreated = await createEnvironmentIfNeeded(repo, env)
-          if (!envCreated) {
-            operationResults.push({
-              repo,
-              environment: env,
-              success: false,
-              error: "Failed to create/access environment",
-            })
-            completedOperations++
-            setProgress((completedOperations / totalOperations) * 100)
-            continue
-          }
-
-          const response = await fetch(
-            `${getGitHubApiUrl()}/repos/${organization}/${repo}/environments/${env}/variables`,
-            {
-              method: "POST",
-              headers: {
-                ...getGitHubHeaders(token),
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                name: variableName,
-                value: variableValue,
-              }),
-            },
-          )
-
-          operationResults.push({
-            repo,
-            environment: env,
-            success: response.ok,
-            error: response.ok ? undefined : `HTTP ${response.status}`,
-          })
-        } catch (error) {
-          operationResults.push({
-            repo,
-            environment: env,
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
+    const name = variableName
+    const value = variableValue
+    const policy = variablePolicy
+    const id = startJob(
+      `Set variable ${name}`,
+      targetTasks(async (repo, env) => {
+        await ensureEnvironment(repo, env)
+        return upsertVariable(client, environmentScope(organization, repo, env), name, value, policy)
+      }, !!environmentBlocker),
+      {
+        onSettled: (finished) => {
+          const failedCount = countTasks(finished).failed
+          toast({
+            title: "Bulk Variable Update Complete",
+            description: `${countOutcome(finished, "created")} created, ${countOutcome(finished, "updated")} updated, ${countOutcome(finished, "skipped")} skipped, ${failedCount} failed`,
+            variant: failedCount > 0 ? "destructive" : "default",
           })
-        }
-
-        completedOperations++
-        setProgress((completedOperations / totalOperations) * 100)
-      }
-    }
-
-    setResults(operationResults)
-    setIsProcessing(false)
+          onEnvironmentCreated?.()
+        },
+      },
+    )
+    setJobId(id)
+  }
 
-    const successCount = operationResults.filter((r) => r.success).length
-    toast({
-      title: "Bulk Variable Creation Complete",
-      description: `Successfully created variable in ${successCount}/${totalOperations} locations`,
-    })
+  // Delete or rename never creates environments; targets without the name are skipped
+  const bulkModify = () => {
+    if (!modifyName.trim() || modifyTargets.length === 0) return
+    if (modifyAction === "rename" && !renameTo.trim()) return
+
+    const action = modifyAction
+    const kind = modifyKind
+    const name = modifyName
+    const newName = renameTo
+    const secretValueForRename = renameSecretValue
+    const id = startJob(
+      action === "delete" ? `Delete ${kind} ${name}` : `Rename ${kind} ${name} to ${newName}`,
+      targetTasks((repo, env) => {
+        const scope = environmentScope(organization, repo, env)
+        return action === "delete"
+          ? deleteItem(client, scope, kind, name)
+          : renameItem(client, scope, kind, name, newName, secretValueForRename)
+      }, true),
+      {
+        onSettled: (finished) => {
+          const changedCount = countOutcome(finished, action === "delete" ? "deleted" : "renamed")
+          const failedCount = countTasks(finished).failed
+          toast({
+            title: action === "delete" ? "Bulk Delete Complete" : "Bulk Rename Complete",
+            description: `${changedCount} ${action === "delete" ? "deleted" : "renamed"}, ${countOutcome(finished, "skipped")} not found, ${failedCount} failed`,
+            variant: failedCount > 0 ? "destructive" : "default",
+          })
+        },
+      },
+    )
+    setJobId(id)
   }
 
   const resetForm = () => {
@@ -310,10 +350,17 @@ export function BulkOperations({
     setSecretValue("")
     setVariableName("")
     setVariableValue("")
-    setResults([])
-    setProgress(0)
+    setModifyName("")
+    setRenameTo("")
+    setRenameSecretValue("")
+    setJobId(null)
+    setProbes(null)
+    setProbeProgress(0)
   }
 
+  const probeSummary =
+    probes && summarizeProbes(probes, probeKind, probeKind === "secret" ? secretValue : variableValue)
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
@@ -324,7 +371,7 @@ export function BulkOperations({
             Bulk Operations
           </DialogTitle>
           <DialogDescription>
-            Create secrets and variables across multiple repositories and environments
+            Create, delete and rename secrets and variables across multiple repositories and environments
           </DialogDescription>
         </DialogHeader>
 
@@ -333,7 +380,14 @@ export function BulkOperations({
             <Card>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm">Repositories ({selectedRepos.length} selected)</CardTitle>
+                  <div>
+                    <CardTitle className="text-sm">Repositories ({selectedRepos.length} selected)</CardTitle>
+                    {isFiltered && (
+                      <CardDescription className="text-xs">
+                        Only repositories matching the grid filter are listed
+                      </CardDescription>
+                    )}
+                  </div>
                   <div className="flex gap-2">
                     <Button size="sm" variant="outline" onClick={selectAllRepos} className="text-xs h-7 bg-transparent">
                       Select All
@@ -366,46 +420,44 @@ export function BulkOperations({
 
             <Card>
               <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm">Environments ({selectedEnvironments.length} selected)</CardTitle>
-                  <div className="flex gap-2">
-                    <Button size="sm" variant="outline" onClick={selectAllEnvs} className="text-xs h-7 bg-transparent">
-                      Select All
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={clearAllEnvs} className="text-xs h-7 bg-transparent">
-                      Clear
-                    </Button>
-                  </div>
-                </div>
+                <CardTitle className="text-sm">Environments ({selectedEnvironments.length} selected)</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2">
-                  {COMMON_ENVIRONMENTS.map((env) => (
-                    <div key={env} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`bulk-env-${env}`}
-                        checked={selectedEnvironments.includes(env)}
-                        onCheckedChange={(checked) => handleEnvSelection(env, checked as boolean)}
-                      />
-                      <Label htmlFor={`bulk-env-${env}`} className="text-sm capitalize">
-                        {env}
-                      </Label>
-                    </div>
-                  ))}
-                </div>
+                <EnvironmentPicker
+                  idPrefix="bulk-env"
+                  options={environmentNames(environments)}
+                  counts={countRepositoriesPerEnvironment(environments)}
+                  selected={selectedEnvironments}
+                  onChange={setSelectedEnvironments}
+                  allowCustom={activeTab !== "modify"}
+                />
                 <div className="mt-4 p-3 bg-muted/50 rounded-lg">
                   <p className="text-xs text-muted-foreground">
-                    Environments will be created automatically if they don't exist
+                    {activeTab === "modify" || environmentBlocker
+                      ? "Only repositories that have the selected environments are changed"
+                      : "Environments will be created automatically if they don't exist"}
                   </p>
                 </div>
               </CardContent>
             </Card>
           </div>
 
+          {activeTab !== "modify" && (
+            <div className="flex items-center gap-2">
+              <Switch id="bulk-dry-run" checked={dryRun} onCheckedChange={setDryRun} disabled={isProcessing} />
+              <Label htmlFor="bulk-dry-run" className="text-sm">
+                Dry run: check every target and confirm before writing
+              </Label>
+            </div>
+          )}
+
+          <CapabilityNotice blockers={[writeBlocker, activeTab !== "modify" ? environmentBlocker : null]} />
+
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="secrets">Bulk Secrets</TabsTrigger>
               <TabsTrigger value="variables">Bulk Variables</TabsTrigger>
+              <TabsTrigger value="modify">Delete / Rename</TabsTrigger>
             </TabsList>
 
             <TabsContent value="secrets" className="space-y-4">
@@ -452,19 +504,22 @@ export function BulkOperations({
                     </div>
                   </div>
                   <Button
-                    onClick={bulkCreateSecrets}
+                    onClick={dryRun ? () => runDryRun("secret") : bulkCreateSecrets}
                     disabled={
                       !secretName ||
                       !secretValue ||
                       selectedRepos.length === 0 ||
                       selectedEnvironments.length === 0 ||
-                      isProcessing
+                      isProcessing ||
+                      !!writeBlocker
                     }
                     className="w-full"
                   >
                     {isProcessing
-                      ? "Creating Secrets..."
-                      : `Create Secret in ${selectedRepos.length * selectedEnvironments.length} Locations`}
+                      ? dryRun
+                        ? "Checking Targets..."
+                        : "Creating Secrets..."
+                      : `${dryRun ? "Preview" : "Create"} Secret in ${createTargetCount} Locations`}
                   </Button>
                 </CardContent>
               </Card>
@@ -478,7 +533,7 @@ export function BulkOperations({
                     Create Variable Across Selected Locations
                   </CardTitle>
                   <CardDescription>
-                    This will create the variable in {selectedRepos.length} repositories across{" "}
+                    This will write the variable in {selectedRepos.length} repositories across{" "}
                     {selectedEnvironments.length} environments ({selectedRepos.length * selectedEnvironments.length}{" "}
                     total operations)
                   </CardDescription>
@@ -512,76 +567,314 @@ export function BulkOperations({
                       />
                     </div>
                   </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="text-xs">When the variable already exists</Label>
+                    <Select
+                      value={variablePolicy}
+                      onValueChange={(value) => setVariablePolicy(value as ExistingVariablePolicy)}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger className="w-48 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EXISTING_VARIABLE_POLICIES) as ExistingVariablePolicy[]).map((policy) => (
+                          <SelectItem key={policy} value={policy}>
+                            {EXISTING_VARIABLE_POLICIES[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <Button
-                    onClick={bulkCreateVariables}
+                    onClick={dryRun ? () => runDryRun("variable") : bulkCreateVariables}
                     disabled={
                       !variableName ||
                       !variableValue ||
                       selectedRepos.length === 0 ||
                       selectedEnvironments.length === 0 ||
-                      isProcessing
+                      isProcessing ||
+                      !!writeBlocker
                     }
                     className="w-full"
                   >
                     {isProcessing
-                      ? "Creating Variables..."
-                      : `Create Variable in ${selectedRepos.length * selectedEnvironments.length} Locations`}
+                      ? dryRun
+                        ? "Checking Targets..."
+                        : "Creating Variables..."
+                      : `${dryRun ? "Preview" : "Create"} Variable in ${createTargetCount} Locations`}
                   </Button>
                 </CardContent>
               </Card>
             </TabsContent>
+            <TabsContent value="modify" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    {modifyAction === "delete" ? <TrashIcon className="h-4 w-4" /> : <EditIcon className="h-4 w-4" />}
+                    {modifyAction === "delete" ? "Delete" : "Rename"} Across Selected Locations
+                  </CardTitle>
+                  <CardDescription>
+                    Locations without the {modifyKind} are skipped. Environments are never created.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label className="text-xs">Type</Label>
+                      <Select
+                        value={modifyKind}
+                        onValueChange={(value) => setModifyKind(value as BulkItemKind)}
+                        disabled={isProcessing}
+                      >
+                        <SelectTrigger className="h-9 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="secret">Secret</SelectItem>
+                          <SelectItem value="variable">Variable</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-xs">Action</Label>
+                      <Select
+                        value={modifyAction}
+                        onValueChange={(value) => setModifyAction(value as ModifyAction)}
+                        disabled={isProcessing}
+                      >
+                        <SelectTrigger className="h-9 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="delete">Delete</SelectItem>
+                          <SelectItem value="rename">Rename</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="bulk-modify-name" className="text-xs">
+                        {modifyAction === "rename" ? "Current Name" : "Name"}
+                      </Label>
+                      <Input
+                        id="bulk-modify-name"
+                        placeholder={modifyKind === "secret" ? "SECRET_NAME" : "VARIABLE_NAME"}
+                        value={modifyName}
+                        onChange={(e) => setModifyName(e.target.value.toUpperCase())}
+                        className="font-mono text-sm"
+                        disabled={isProcessing}
+                      />
+                    </div>
+                    {modifyAction === "rename" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="bulk-rename-to" className="text-xs">
+                          New Name
+                        </Label>
+                        <Input
+                          id="bulk-rename-to"
+                          placeholder="NEW_NAME"
+                          value={renameTo}
+                          onChange={(e) => setRenameTo(e.target.value.toUpperCase())}
+                          className="font-mono text-sm"
+                          disabled={isProcessing}
+                        />
+                      </div>
+                    )}
+                    {modifyAction === "rename" && modifyKind === "secret" && (
+                      <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor="bulk-rename-value" className="text-xs">
+                          Secret Value (secret values cannot be read back, so it must be entered again)
+                        </Label>
+                        <Input
+                          id="bulk-rename-value"
+                          type="password"
+                          placeholder="Enter secret value"
+                          value={renameSecretValue}
+                          onChange={(e) => setRenameSecretValue(e.target.value)}
+                          className="font-mono text-sm"
+                          disabled={isProcessing}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant={modifyAction === "delete" ? "destructive" : "default"}
+                        disabled={
+                          !modifyName ||
+                          (modifyAction === "rename" &&
+                            (!renameTo ||
+                              renameTo === modifyName ||
+                              (modifyKind === "secret" && !renameSecretValue))) ||
+                          modifyTargets.length === 0 ||
+                          isProcessing ||
+                          !!writeBlocker
+                        }
+                        className="w-full"
+                      >
+                        {isProcessing
+                          ? modifyAction === "delete"
+                            ? "Deleting..."
+                            : "Renaming..."
+                          : `${modifyAction === "delete" ? "Delete" : "Rename"} in ${modifyTargets.length} Locations`}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          {modifyAction === "delete" ? "Delete" : "Rename"} {modifyKind}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {modifyAction === "delete"
+                            ? `Delete the ${modifyKind} "${modifyName}"`
+                            : `Rename the ${modifyKind} "${modifyName}" to "${renameTo}"`}{" "}
+                          in {modifyTargets.length} locations.
+                          {modifyAction === "delete" &&
+                            (modifyKind === "secret"
+                              ? " Each deleted secret can be recreated from History, but GitHub never returns secret values, so they have to be entered again."
+                              : " Each deleted value can be restored from History.")}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-1">
+                        {selectedRepos.map((repo) => {
+                          const envs = modifyTargets
+                            .filter((target) => target.repo === repo)
+                            .map((target) => target.env)
+                          return (
+                            envs.length > 0 && (
+                              <p key={repo} className="font-mono text-xs">
+                                {repo}: {envs.join(", ")}
+                              </p>
+                            )
+                          )
+                        })}
+                      </div>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={bulkModify}
+                          className={
+                            modifyAction === "delete"
+                              ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              : undefined
+                          }
+                        >
+                          {modifyAction === "delete" ? "Delete" : "Rename"}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
 
-          {isProcessing && (
+          {isProbing && (
             <Card>
               <CardHeader>
-                <CardTitle className="text-sm">Operation Progress</CardTitle>
+                <CardTitle className="text-sm">Checking Targets</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <Progress value={progress} className="w-full" />
-                  <p className="text-xs text-muted-foreground text-center">{Math.round(progress)}% complete</p>
+                  <Progress value={probeProgress} className="w-full" />
+                  <p className="text-xs text-muted-foreground text-center">{Math.round(probeProgress)}% complete</p>
                 </div>
               </CardContent>
             </Card>
           )}
 
-          {results.length > 0 && (
+          {probes && probeSummary && (
             <Card>
               <CardHeader>
-                <CardTitle className="text-sm">Operation Results</CardTitle>
+                <CardTitle className="text-sm">Dry Run Preview</CardTitle>
                 <CardDescription>
-                  {results.filter((r) => r.success).length} successful, {results.filter((r) => !r.success).length}{" "}
-                  failed
+                  Nothing has been written yet. Review what would happen in each location, then confirm.
                 </CardDescription>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Badge variant="secondary">{probeSummary.environmentsToCreate} environments to create</Badge>
+                  <Badge variant="secondary">
+                    {probeSummary.created} new {probeKind === "secret" ? "secrets" : "variables"}
+                  </Badge>
+                  <Badge variant="outline" className="border-yellow-500 text-yellow-500">
+                    {probeSummary.overwritten} {probeKind === "secret" ? "secrets overwritten" : "variables changed"}
+                  </Badge>
+                  {probeKind === "variable" && <Badge variant="outline">{probeSummary.unchanged} unchanged</Badge>}
+                  {probeSummary.errors > 0 && <Badge variant="destructive">{probeSummary.errors} unreadable</Badge>}
+                </div>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
                 <ScrollArea className="h-48">
                   <div className="space-y-2">
-                    {results.map((result, index) => (
-                      <div key={index} className="flex items-center justify-between p-2 border rounded-lg text-sm">
-                        <div className="flex items-center gap-2">
-                          <Badge variant={result.success ? "default" : "destructive"} className="text-xs">
-                            {result.success ? "Success" : "Failed"}
-                          </Badge>
+                    {probes.map((probe) => {
+                      const value = probeKind === "secret" ? secretValue : variableValue
+                      return (
+                        <div
+                          key={`${probe.repo}/${probe.environment}`}
+                          className="flex items-center justify-between p-2 border rounded-lg text-sm"
+                        >
                           <span className="font-mono text-xs">
-                            {result.repo}/{result.environment}
+                            {probe.repo}/{probe.environment}
                           </span>
+                          <div className="flex items-center gap-2">
+                            {probe.error ? (
+                              <Badge variant="destructive" className="text-xs">
+                                {probe.error}
+                              </Badge>
+                            ) : (
+                              <>
+                                {!probe.environmentExists && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    Create environment
+                                  </Badge>
+                                )}
+                                {!probe.exists ? (
+                                  <Badge className="text-xs">Create</Badge>
+                                ) : probeKind === "secret" ? (
+                                  <Badge variant="outline" className="text-xs border-yellow-500 text-yellow-500">
+                                    Overwrite
+                                  </Badge>
+                                ) : variablePolicy !== "overwrite" ? (
+                                  <Badge
+                                    variant={variablePolicy === "fail" ? "destructive" : "outline"}
+                                    className="text-xs"
+                                  >
+                                    {variablePolicy === "fail" ? "Will fail: exists" : "Skip: exists"}
+                                  </Badge>
+                                ) : probe.currentValue === value ? (
+                                  <Badge variant="outline" className="text-xs">
+                                    Same value
+                                  </Badge>
+                                ) : (
+                                  <span className="text-xs text-yellow-500 font-mono truncate max-w-xs">
+                                    {JSON.stringify(probe.currentValue)} → {JSON.stringify(value)}
+                                  </span>
+                                )}
+                              </>
+                            )}
+                          </div>
                         </div>
-                        {result.error && <span className="text-xs text-muted-foreground">{result.error}</span>}
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 </ScrollArea>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setProbes(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={confirmDryRun}>Confirm and Write {probes.length} Locations</Button>
+                </div>
               </CardContent>
             </Card>
           )}
 
+          {jobId && <JobProgress jobId={jobId} />}
+
           <div className="flex justify-between">
             <Button variant="outline" onClick={resetForm} disabled={isProcessing}>
               Reset Form
             </Button>
-            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isProcessing}>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isProbing}>
               Close
             </Button>
           </div>
@@ -0,0 +1,101 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircleIcon, KeyIcon } from "@/components/icons"
+import { CAPABILITIES, type Capability, type TokenCapabilities } from "@/lib/token-capabilities"
+
+const STATE_LABELS = {
+  granted: "Allowed",
+  denied: "Missing",
+  unknown: "Not checked",
+}
+
+interface CapabilityReportProps {
+  capabilities: TokenCapabilities
+}
+
+export function CapabilityReport({ capabilities }: CapabilityReportProps) {
+  const { scopes } = capabilities
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <KeyIcon className="h-4 w-4" />
+          Token Permissions
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {scopes === null ? (
+            "Fine-grained and GitHub App tokens do not report their permissions. Actions are disabled once GitHub refuses them."
+          ) : scopes.length > 0 ? (
+            <>
+              Scopes:{" "}
+              {scopes.map((scope) => (
+                <code key={scope} className="text-xs bg-muted px-1 py-0.5 rounded mr-1">
+                  {scope}
+                </code>
+              ))}
+            </>
+          ) : (
+            "This token has no scopes"
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {(Object.keys(CAPABILITIES) as Capability[]).map((capability) => {
+          const status = capabilities.capabilities[capability]
+          const refused = Object.keys(capabilities.refusals[capability])
+          return (
+            <div key={capability} className="flex items-start justify-between gap-4 text-xs">
+              <div>
+                <p className="font-medium">{CAPABILITIES[capability].label}</p>
+                <p className="text-muted-foreground">
+                  {status.reason || (
+                    <>
+                      Requires <code className="bg-muted px-1 rounded">{CAPABILITIES[capability].scope}</code> or the
+                      matching fine-grained permission
+                    </>
+                  )}
+                </p>
+                {refused.length > 0 && (
+                  <p className="text-destructive">GitHub refused writes in {refused.join(", ")}</p>
+                )}
+              </div>
+              <Badge
+                variant={status.state === "granted" ? "default" : status.state === "denied" ? "destructive" : "outline"}
+                className="text-xs shrink-0"
+              >
+                {STATE_LABELS[status.state]}
+              </Badge>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface CapabilityNoticeProps {
+  // Explanations from `capabilityBlocker`; nulls are skipped
+  blockers: Array<string | null>
+}
+
+// Explains why some actions on the page are disabled
+export function CapabilityNotice({ blockers }: CapabilityNoticeProps) {
+  const reasons = Array.from(new Set(blockers.filter((reason): reason is string => !!reason)))
+  if (reasons.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex items-start gap-2 p-3 border border-destructive/50 rounded-lg text-xs text-destructive">
+      <AlertCircleIcon className="h-4 w-4 shrink-0" />
+      <div className="space-y-1">
+        {reasons.map((reason) => (
+          <p key={reason}>{reason}</p>
+        ))}
+      </div>
+    </div>
+  )
+}
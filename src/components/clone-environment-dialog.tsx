@@ -0,0 +1,473 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RepositoryIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { PlanChangeLine } from "@/components/plan-change-line"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { describeError } from "@/lib/github-client"
+import { describeProtectionDraft } from "@/lib/environment-protection"
+import { countTasks, startJob } from "@/lib/job-engine"
+import {
+  cloneTasks,
+  fetchCloneSource,
+  planClone,
+  type CloneSource,
+  type ClonePlan,
+  type CloneTarget,
+} from "@/lib/environment-clone"
+
+interface Repository {
+  name: string
+  full_name: string
+}
+
+interface CloneEnvironmentDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  repository: string
+  environment: string
+  token: string
+  allRepositories: Repository[]
+  onCloned?: () => void
+}
+
+// "placeholder" writes the same stand-in value to every secret, "reenter" asks for each value
+type SecretMode = "placeholder" | "reenter"
+
+const DEFAULT_PLACEHOLDER = "CHANGE_ME"
+
+function describeDraft(summary: string[]) {
+  return summary.length > 0 ? summary.join(", ") : "No protection rules"
+}
+
+export function CloneEnvironmentDialog({
+  isOpen,
+  onClose,
+  organization,
+  repository,
+  environment,
+  token,
+  allRepositories,
+  onCloned,
+}: CloneEnvironmentDialogProps) {
+  const client = useGitHubClient(token)
+  const [source, setSource] = useState<CloneSource | null>(null)
+  const [loadingSource, setLoadingSource] = useState(false)
+  const [sourceError, setSourceError] = useState("")
+
+  const [selectedRepos, setSelectedRepos] = useState<string[]>([])
+  const [targetEnvironments, setTargetEnvironments] = useState(environment)
+  const [secretMode, setSecretMode] = useState<SecretMode>("placeholder")
+  const [placeholder, setPlaceholder] = useState(DEFAULT_PLACEHOLDER)
+  const [secretValues, setSecretValues] = useState<Record<string, string>>({})
+  const [overwriteSecrets, setOverwriteSecrets] = useState(false)
+  const [prune, setPrune] = useState(false)
+
+  const [plans, setPlans] = useState<ClonePlan[] | null>(null)
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isApplying = job?.status === "running" || job?.status === "paused"
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedRepos([])
+      setTargetEnvironments(environment)
+      setSecretValues({})
+      setPlans(null)
+      setJobId(null)
+      loadSource()
+    }
+  }, [isOpen, repository, environment])
+
+  const loadSource = async () => {
+    setLoadingSource(true)
+    setSource(null)
+    setSourceError("")
+    try {
+      setSource(await fetchCloneSource(client, organization, repository, environment))
+    } catch (error) {
+      console.error("Error loading source environment:", error)
+      setSourceError(describeError(error))
+      toast({
+        title: "Error",
+        description: `Failed to load ${repository}/${environment}: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingSource(false)
+    }
+  }
+
+  const envNames = Array.from(
+    new Set(
+      targetEnvironments
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ),
+  )
+  // Cloning an environment onto itself would be a no-op at best
+  const targets: CloneTarget[] = selectedRepos
+    .flatMap((repo) => envNames.map((env) => ({ repo, environment: env })))
+    .filter((target) => target.repo !== repository || target.environment !== environment)
+
+  const resolvedSecretValues =
+    secretMode === "placeholder"
+      ? Object.fromEntries((source?.secrets || []).map((name) => [name, placeholder]))
+      : secretValues
+  // Only secrets the plan actually writes need a value
+  const secretsToWrite = new Set(
+    (plans || []).flatMap((plan) =>
+      plan.changes.filter((c) => c.kind === "secret" && c.action !== "delete").map((c) => c.name),
+    ),
+  )
+  const missingSecretValues =
+    secretMode === "reenter" ? Array.from(secretsToWrite).filter((name) => !secretValues[name]) : []
+
+  const resetPlan = () => {
+    setPlans(null)
+    setJobId(null)
+  }
+
+  const handleRepoSelection = (repoName: string, checked: boolean) => {
+    resetPlan()
+    if (checked) {
+      setSelectedRepos([...selectedRepos, repoName])
+    } else {
+      setSelectedRepos(selectedRepos.filter((r) => r !== repoName))
+    }
+  }
+
+  const previewClone = async () => {
+    if (!source || targets.length === 0) return
+
+    setIsPlanning(true)
+    setJobId(null)
+    try {
+      setPlans(
+        await planClone(client, organization, source, targets, {
+          // Placeholders never replace real values
+          overwriteSecrets: secretMode === "reenter" && overwriteSecrets,
+          prune,
+        }),
+      )
+    } catch (error) {
+      console.error("Error planning clone:", error)
+      toast({
+        title: "Error",
+        description: `Failed to compare targets: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const runClone = () => {
+    if (!source || !plans) return
+
+    const targetCount = targets.length
+    const id = startJob(
+      `Clone ${repository}/${environment}`,
+      cloneTasks(client, organization, source, plans, resolvedSecretValues),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          // Deletions of values that no longer existed
+          const skipped = finished.tasks.filter((task) => task.outcome === "skipped").length
+          toast({
+            title: counts.failed > 0 ? "Clone Incomplete" : "Environment Cloned",
+            description: `${counts.succeeded - skipped}/${counts.total} changes applied to ${targetCount} targets${skipped > 0 ? `, ${skipped} already gone` : ""}`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          onCloned?.()
+        },
+      },
+    )
+    setJobId(id)
+    setPlans(null)
+  }
+
+  const changeCount = (plans || []).reduce((sum, plan) => sum + plan.changes.length, 0)
+  const unreadablePlans = (plans || []).filter((plan) => plan.error)
+  const isBusy = isPlanning || isApplying
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RepositoryIcon className="h-5 w-5" />
+            Clone Environment
+          </DialogTitle>
+          <DialogDescription>
+            Copy variables, secrets, protection rules and branch policies of{" "}
+            <Badge variant="outline">
+              {repository}/{environment}
+            </Badge>{" "}
+            to other repositories or environments
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">Source</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {sourceError && !loadingSource ? (
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-xs text-destructive">Failed to load the source environment: {sourceError}</p>
+                  <Button size="sm" variant="outline" className="bg-transparent" onClick={loadSource}>
+                    Retry
+                  </Button>
+                </div>
+              ) : loadingSource || !source ? (
+                <div className="text-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{Object.keys(source.variables).length} variables</Badge>
+                  <Badge variant="secondary">{source.secrets.length} secrets</Badge>
+                  <Badge variant="outline">{describeDraft(describeProtectionDraft(source.protection))}</Badge>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">Targets</CardTitle>
+              <CardDescription className="text-xs">
+                Every selected repository receives each target environment. Missing environments are created.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">Repositories ({selectedRepos.length} selected)</Label>
+                <div className="max-h-40 overflow-y-auto space-y-1 border rounded-md p-2">
+                  {allRepositories.map((repo) => (
+                    <div key={repo.name} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`clone-repo-${repo.name}`}
+                        checked={selectedRepos.includes(repo.name)}
+                        onCheckedChange={(checked) => handleRepoSelection(repo.name, checked as boolean)}
+                        disabled={isBusy}
+                      />
+                      <Label htmlFor={`clone-repo-${repo.name}`} className="text-xs">
+                        {repo.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="clone-target-envs" className="text-xs font-medium">
+                  Target environments
+                </Label>
+                <Input
+                  id="clone-target-envs"
+                  placeholder="staging, qa"
+                  value={targetEnvironments}
+                  onChange={(e) => {
+                    setTargetEnvironments(e.target.value)
+                    resetPlan()
+                  }}
+                  className="font-mono text-sm"
+                  disabled={isBusy}
+                />
+                <p className="text-xs text-muted-foreground">Comma-separated. {targets.length} targets selected.</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-sm">Secrets</CardTitle>
+                  <CardDescription className="text-xs">
+                    Secret values cannot be read from GitHub, so they are written as placeholders or re-entered
+                  </CardDescription>
+                </div>
+                <Select
+                  value={secretMode}
+                  onValueChange={(value) => {
+                    setSecretMode(value as SecretMode)
+                    resetPlan()
+                  }}
+                  disabled={isBusy}
+                >
+                  <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="placeholder">Placeholder value</SelectItem>
+                    <SelectItem value="reenter">Re-enter values</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {secretMode === "placeholder" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="clone-placeholder" className="text-xs">
+                    Placeholder written to new secrets
+                  </Label>
+                  <Input
+                    id="clone-placeholder"
+                    value={placeholder}
+                    onChange={(e) => setPlaceholder(e.target.value)}
+                    className="font-mono text-sm"
+                    disabled={isBusy}
+                  />
+                </div>
+              ) : (
+                <>
+                  {(source?.secrets || []).map((name) => (
+                    <div key={name} className="grid grid-cols-[200px_1fr] gap-2 items-center">
+                      <span className="font-mono text-xs truncate">{name}</span>
+                      <Input
+                        type="password"
+                        placeholder="Enter secret value"
+                        value={secretValues[name] || ""}
+                        onChange={(e) => setSecretValues({ ...secretValues, [name]: e.target.value })}
+                        className="font-mono text-xs h-8"
+                        disabled={isBusy}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="clone-overwrite-secrets"
+                      checked={overwriteSecrets}
+                      onCheckedChange={(checked) => {
+                        setOverwriteSecrets(checked)
+                        resetPlan()
+                      }}
+                      disabled={isBusy}
+                    />
+                    <Label htmlFor="clone-overwrite-secrets" className="text-xs">
+                      Overwrite secrets that already exist in targets
+                    </Label>
+                  </div>
+                </>
+              )}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="clone-prune"
+                  checked={prune}
+                  onCheckedChange={(checked) => {
+                    setPrune(checked)
+                    resetPlan()
+                  }}
+                  disabled={isBusy}
+                />
+                <Label htmlFor="clone-prune" className="text-xs">
+                  Delete target secrets and variables the source does not have
+                </Label>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button onClick={previewClone} disabled={!source || targets.length === 0 || isBusy} className="w-full">
+            {isPlanning ? "Comparing..." : `Preview Changes for ${targets.length} Targets`}
+          </Button>
+
+          {plans && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Diff Preview</CardTitle>
+                <CardDescription>
+                  {changeCount === 0
+                    ? "All targets already match the source."
+                    : `${changeCount} changes across ${plans.filter((p) => p.changes.length > 0).length} targets`}
+                  {unreadablePlans.length > 0 &&
+                    `. ${unreadablePlans.length} targets could not be read and are left out: ${unreadablePlans
+                      .map((plan) => `${plan.repo}/${plan.environment} (${plan.error})`)
+                      .join(", ")}`}
+                </CardDescription>
+              </CardHeader>
+              {changeCount > 0 && (
+                <CardContent className="space-y-4">
+                  <ScrollArea className="h-72 border rounded-md p-3">
+                    <div className="space-y-4">
+                      {plans.map((plan) => (
+                        <div key={`${plan.repo}/${plan.environment}`} className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm font-medium">
+                              {plan.repo}/{plan.environment}
+                            </span>
+                            {plan.currentProtection ? (
+                              <Badge variant="outline" className="text-xs">
+                                Existing
+                              </Badge>
+                            ) : (
+                              <Badge className="text-xs">New environment</Badge>
+                            )}
+                          </div>
+                          {source && plan.changes.some((change) => change.kind === "environment") && (
+                            <p className="text-xs text-muted-foreground">
+                              Protection:{" "}
+                              {plan.currentProtection && (
+                                <>{describeDraft(describeProtectionDraft(plan.currentProtection))} → </>
+                              )}
+                              {describeDraft(describeProtectionDraft(source.protection))}
+                            </p>
+                          )}
+                          <div className="space-y-1 font-mono text-xs pl-2">
+                            {plan.error ? (
+                              <p className="text-destructive">Could not be read: {plan.error}</p>
+                            ) : plan.changes.length === 0 ? (
+                              <p className="text-muted-foreground">No changes</p>
+                            ) : (
+                              plan.changes.map((change, index) => (
+                                <PlanChangeLine key={index} change={change} showLocation={false} />
+                              ))
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+
+                  <Button
+                    onClick={runClone}
+                    disabled={
+                      isApplying || (secretMode === "placeholder" ? !placeholder : missingSecretValues.length > 0)
+                    }
+                    className="w-full"
+                  >
+                    {isApplying
+                      ? "Cloning..."
+                      : missingSecretValues.length > 0
+                        ? `Enter values for ${missingSecretValues.length} secrets`
+                        : `Apply ${changeCount} Changes`}
+                  </Button>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          {jobId && <JobProgress jobId={jobId} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,313 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircleIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { upsertVariable } from "@/lib/bulk-actions"
+import type { BulkItemKind } from "@/lib/bulk-probe"
+import { countValues, findNearDuplicates } from "@/lib/drift-report"
+import { environmentScope } from "@/lib/github-types"
+import { countTasks, startJob } from "@/lib/job-engine"
+
+interface ReportLocation {
+  repository: string
+  environment: string
+}
+
+interface ReportItem {
+  name: string
+  // Variables carry their values; secrets cannot be read back
+  locations: Array<ReportLocation & { value?: string }>
+}
+
+interface ConsistencyReportProps {
+  organization: string
+  token: string
+  // Every environment that was scanned, i.e. the matrix columns
+  columns: ReportLocation[]
+  // Locations that could not be listed; shown as unknown and never filled
+  failed: Record<BulkItemKind, ReportLocation[]>
+  secrets: ReportItem[]
+  variables: ReportItem[]
+  onFilled?: () => void
+}
+
+const locationKey = (location: ReportLocation) => `${location.repository}/${location.environment}`
+
+export function ConsistencyReport({
+  organization,
+  token,
+  columns,
+  failed,
+  secrets,
+  variables,
+  onFilled,
+}: ConsistencyReportProps) {
+  const client = useGitHubClient(token)
+  const [kind, setKind] = useState<BulkItemKind>("variable")
+  const [fillName, setFillName] = useState<string | null>(null)
+  const [fillValue, setFillValue] = useState("")
+  const [jobId, setJobId] = useState<string | null>(null)
+
+  const items = kind === "secret" ? secrets : variables
+  const fillItem = fillName ? items.find((item) => item.name === fillName) : undefined
+  const nearDuplicates = findNearDuplicates([...secrets, ...variables].map((item) => item.name))
+
+  const unknown = new Set(failed[kind].map(locationKey))
+
+  const missingColumns = (item: ReportItem) => {
+    const present = new Set(item.locations.map(locationKey))
+    return columns.filter((column) => !present.has(locationKey(column)) && !unknown.has(locationKey(column)))
+  }
+
+  const distinctValues = (item: ReportItem) =>
+    countValues(item.locations.flatMap((loc) => (loc.value === undefined ? [] : [loc.value])))
+
+  const driftedCount = kind === "variable" ? items.filter((item) => distinctValues(item).length > 1).length : 0
+  const gapCount = items.filter((item) => missingColumns(item).length > 0).length
+
+  const openFill = (item: ReportItem) => {
+    setFillName(item.name)
+    // Default to the value most locations already agree on
+    setFillValue(kind === "variable" ? distinctValues(item)[0]?.value || "" : "")
+  }
+
+  const fillMissing = (item: ReportItem) => {
+    const targets = missingColumns(item)
+    const value = fillValue
+    const itemKind = kind
+
+    const id = startJob(
+      `Fill missing ${itemKind} ${item.name}`,
+      targets.map((target) => ({
+        label: locationKey(target),
+        run: async () => {
+          const scope = environmentScope(organization, target.repository, target.environment)
+          // Skip rather than overwrite in case the value appeared since the scan
+          if (itemKind === "variable") {
+            return upsertVariable(client, scope, item.name, value, "skip")
+          }
+          if (await client.getSecret(scope, item.name)) {
+            return "skipped"
+          }
+          await client.setSecret(scope, item.name, value)
+          return "created"
+        },
+      })),
+      {
+        onSettled: (job) => {
+          const counts = countTasks(job)
+          const skipped = job.tasks.filter((task) => task.outcome === "skipped").length
+          toast({
+            title: counts.failed > 0 ? "Fill Incomplete" : "Gaps Filled",
+            description: `${item.name}: ${counts.succeeded - skipped} filled, ${skipped} already set, ${counts.failed} failed`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          onFilled?.()
+        },
+      },
+    )
+    setJobId(id)
+    setFillName(null)
+    setFillValue("")
+  }
+
+  return (
+    <div className="space-y-4">
+      {nearDuplicates.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <AlertCircleIcon className="h-4 w-4 text-destructive" />
+              Possible Typos ({nearDuplicates.length})
+            </CardTitle>
+            <CardDescription className="text-xs">Names that are suspiciously similar to each other</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {nearDuplicates.map((pair) => (
+                <Badge key={`${pair.a}-${pair.b}`} variant="outline" className="text-xs font-mono">
+                  {pair.a} ↔ {pair.b}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <Select
+          value={kind}
+          onValueChange={(value) => {
+            setKind(value as BulkItemKind)
+            setFillName(null)
+          }}
+        >
+          <SelectTrigger className="w-40 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="variable">Variables</SelectItem>
+            <SelectItem value="secret">Secrets</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          {unknown.size > 0 && (
+            <Badge variant="outline" className="text-xs">
+              {unknown.size} could not be listed
+            </Badge>
+          )}
+          <Badge variant={gapCount > 0 ? "destructive" : "secondary"} className="text-xs">
+            {gapCount} with gaps
+          </Badge>
+          {kind === "variable" && (
+            <Badge variant={driftedCount > 0 ? "destructive" : "secondary"} className="text-xs">
+              {driftedCount} with differing values
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {jobId && <JobProgress jobId={jobId} />}
+
+      {items.length === 0 || columns.length === 0 ? (
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-sm text-muted-foreground text-center">Nothing to compare</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="overflow-auto border rounded-lg max-h-[50vh]">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-background p-2 text-left font-medium border-b">Name</th>
+                {columns.map((column) => (
+                  <th
+                    key={locationKey(column)}
+                    className="p-2 font-normal text-muted-foreground border-b whitespace-nowrap"
+                  >
+                    {column.repository}
+                    <br />
+                    {column.environment}
+                  </th>
+                ))}
+                <th className="p-2 border-b" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const byLocation = new Map(item.locations.map((loc) => [locationKey(loc), loc]))
+                const values = distinctValues(item)
+                const missing = missingColumns(item)
+                // Cells that disagree with the most common value are highlighted
+                const majority = values[0]?.value
+
+                return (
+                  <tr key={item.name} className="border-b last:border-b-0">
+                    <td className="sticky left-0 bg-background p-2 font-mono whitespace-nowrap">
+                      {item.name}
+                      {values.length > 1 && (
+                        <Badge variant="destructive" className="ml-2 text-xs">
+                          {values.length} values
+                        </Badge>
+                      )}
+                    </td>
+                    {columns.map((column) => {
+                      const location = byLocation.get(locationKey(column))
+                      if (!location && unknown.has(locationKey(column))) {
+                        return (
+                          <td
+                            key={locationKey(column)}
+                            className="p-2 text-center text-muted-foreground"
+                            title="Could not be listed"
+                          >
+                            ?
+                          </td>
+                        )
+                      }
+                      if (!location) {
+                        return (
+                          <td key={locationKey(column)} className="p-2 text-center text-destructive bg-destructive/10">
+                            —
+                          </td>
+                        )
+                      }
+                      const differs = location.value !== undefined && location.value !== majority
+                      return (
+                        <td
+                          key={locationKey(column)}
+                          className={`p-2 text-center ${differs ? "bg-yellow-500/20" : ""}`}
+                          title={location.value}
+                        >
+                          {location.value === undefined ? (
+                            "✓"
+                          ) : (
+                            <span className="font-mono block max-w-32 truncate">{location.value}</span>
+                          )}
+                        </td>
+                      )
+                    })}
+                    <td className="p-2 whitespace-nowrap">
+                      {missing.length > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-xs h-6 bg-transparent"
+                          onClick={() => openFill(item)}
+                        >
+                          Fill {missing.length} Missing
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {fillItem && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">
+              Fill <span className="font-mono">{fillItem.name}</span> in {missingColumns(fillItem).length} locations
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {missingColumns(fillItem).map(locationKey).join(", ")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="fill-value" className="text-xs">
+                {kind === "secret" ? "Secret value" : "Value"}
+              </Label>
+              <Input
+                id="fill-value"
+                type={kind === "secret" ? "password" : "text"}
+                value={fillValue}
+                onChange={(e) => setFillValue(e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <Button variant="outline" className="bg-transparent" onClick={() => setFillName(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => fillMissing(fillItem)} disabled={!fillValue}>
+              Fill Missing
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -8,11 +8,12 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Checkbox } from "@/components/ui/checkbox"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Progress } from "@/components/ui/progress"
-import { Badge } from "@/components/ui/badge"
 import { PlusIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
 import { toast } from "@/hooks/use-toast"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { countTasks, startJob } from "@/lib/job-engine"
 
 interface Repository {
   name: string
@@ -25,28 +26,26 @@ interface CreateEnvironmentDialogProps {
   organization: string
   token: string
   repositories: Repository[]
+  // The repositories were narrowed down by the grid filter
+  isFiltered?: boolean
   onEnvironmentCreated?: () => void
 }
 
-interface CreationResult {
-  repo: string
-  success: boolean
-  error?: string
-}
-
 export function CreateEnvironmentDialog({
   isOpen,
   onClose,
   organization,
   token,
   repositories,
+  isFiltered,
   onEnvironmentCreated,
 }: CreateEnvironmentDialogProps) {
+  const client = useGitHubClient(token)
   const [environmentName, setEnvironmentName] = useState("")
   const [selectedRepos, setSelectedRepos] = useState<string[]>([])
-  const [isCreating, setIsCreating] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [results, setResults] = useState<CreationResult[]>([])
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isCreating = job?.status === "running" || job?.status === "paused"
 
   const handleRepoSelection = (repoName: string, checked: boolean) => {
     if (checked) {
@@ -64,69 +63,41 @@ export function CreateEnvironmentDialog({
     setSelectedRepos([])
   }
 
-  const createEnvironments = async () => {
+  const createEnvironments = () => {
     if (!environmentName.trim() || selectedRepos.length === 0) {
       return
     }
 
-    setIsCreating(true)
-    setProgress(0)
-    setResults([])
-
-    const totalOperations = selectedRepos.length
-    let completedOperations = 0
-    const creationResults: CreationResult[] = []
-
-    for (const repo of selectedRepos) {
-      try {
-        const response = await fetch(
-          `${getGitHubApiUrl()}/repos/${organization}/${repo}/environments/${environmentName}`,
-          {
-            method: "PUT",
-            headers: {
-              ...getGitHubHeaders(token),
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({}),
-          },
-        )
-
-        creationResults.push({
-          repo,
-          success: response.ok,
-          error: response.ok ? undefined : `HTTP ${response.status}`,
-        })
-      } catch (error) {
-        creationResults.push({
-          repo,
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        })
-      }
-
-      completedOperations++
-      setProgress((completedOperations / totalOperations) * 100)
-    }
-
-    setResults(creationResults)
-    setIsCreating(false)
-
-    const successCount = creationResults.filter((r) => r.success).length
-    toast({
-      title: "Environment Creation Complete",
-      description: `Successfully created "${environmentName}" in ${successCount}/${totalOperations} repositories`,
-    })
-
-    if (onEnvironmentCreated) {
-      onEnvironmentCreated()
-    }
+    const name = environmentName
+    const id = startJob(
+      `Create environment ${name}`,
+      selectedRepos.map((repo) => ({
+        label: repo,
+        run: async () => {
+          await client.createOrUpdateEnvironment(organization, repo, name)
+        },
+      })),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          toast({
+            title: "Environment Creation Complete",
+            description: `Successfully created "${name}" in ${counts.succeeded}/${counts.total} repositories`,
+          })
+
+          if (onEnvironmentCreated) {
+            onEnvironmentCreated()
+          }
+        },
+      },
+    )
+    setJobId(id)
   }
 
   const resetForm = () => {
     setEnvironmentName("")
     setSelectedRepos([])
-    setResults([])
-    setProgress(0)
+    setJobId(null)
   }
 
   const handleClose = () => {
@@ -173,7 +144,14 @@ export function CreateEnvironmentDialog({
           <Card>
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-sm">Select Repositories ({selectedRepos.length} selected)</CardTitle>
+                <div>
+                  <CardTitle className="text-sm">Select Repositories ({selectedRepos.length} selected)</CardTitle>
+                  {isFiltered && (
+                    <CardDescription className="text-xs">
+                      Only repositories matching the grid filter are listed
+                    </CardDescription>
+                  )}
+                </div>
                 <div className="flex gap-2">
                   <Button size="sm" variant="outline" onClick={selectAllRepos} className="text-xs h-7 bg-transparent">
                     Select All
@@ -216,57 +194,15 @@ export function CreateEnvironmentDialog({
               : `Create "${environmentName}" in ${selectedRepos.length} ${selectedRepos.length === 1 ? "Repository" : "Repositories"}`}
           </Button>
 
-          {/* Progress Section */}
-          {isCreating && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-sm">Creation Progress</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <Progress value={progress} className="w-full" />
-                  <p className="text-xs text-muted-foreground text-center">{Math.round(progress)}% complete</p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Results Section */}
-          {results.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-sm">Creation Results</CardTitle>
-                <CardDescription>
-                  {results.filter((r) => r.success).length} successful, {results.filter((r) => !r.success).length}{" "}
-                  failed
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ScrollArea className="h-48">
-                  <div className="space-y-2">
-                    {results.map((result, index) => (
-                      <div key={index} className="flex items-center justify-between p-2 border rounded-lg text-sm">
-                        <div className="flex items-center gap-2">
-                          <Badge variant={result.success ? "default" : "destructive"} className="text-xs">
-                            {result.success ? "Success" : "Failed"}
-                          </Badge>
-                          <span className="font-mono text-xs">{result.repo}</span>
-                        </div>
-                        {result.error && <span className="text-xs text-muted-foreground">{result.error}</span>}
-                      </div>
-                    ))}
-                  </div>
-                </ScrollArea>
-              </CardContent>
-            </Card>
-          )}
+          {/* Progress and Results */}
+          {jobId && <JobProgress jobId={jobId} />}
 
           {/* Actions */}
           <div className="flex justify-between">
             <Button variant="outline" onClick={resetForm} disabled={isCreating}>
               Reset Form
             </Button>
-            <Button variant="outline" onClick={handleClose} disabled={isCreating}>
+            <Button variant="outline" onClick={handleClose}>
               Close
             </Button>
           </div>
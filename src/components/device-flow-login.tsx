@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { describeError } from "@/lib/github-client"
+import {
+  getDefaultOAuthClientId,
+  getDefaultOAuthScopes,
+  pollForAccessToken,
+  requestDeviceCode,
+  type DeviceCode,
+} from "@/lib/device-flow"
+
+interface DeviceFlowLoginProps {
+  onToken: (token: string) => void
+  disabled?: boolean
+}
+
+export function DeviceFlowLogin({ onToken, disabled }: DeviceFlowLoginProps) {
+  const [clientId, setClientId] = useState(getDefaultOAuthClientId)
+  const [scopes, setScopes] = useState(getDefaultOAuthScopes)
+  const [code, setCode] = useState<DeviceCode | null>(null)
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState("")
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop polling when the form goes away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const start = async () => {
+    const options = { clientId: clientId.trim(), scopes: scopes.trim() }
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError("")
+    setStarting(true)
+    try {
+      const deviceCode = await requestDeviceCode(options)
+      setCode(deviceCode)
+      setStarting(false)
+      const { accessToken } = await pollForAccessToken(options, deviceCode, controller.signal)
+      onToken(accessToken)
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Device flow sign-in failed:", error)
+        setError(describeError(error))
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setCode(null)
+        setStarting(false)
+      }
+    }
+  }
+
+  const cancel = () => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setCode(null)
+    setStarting(false)
+  }
+
+  if (code) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-muted-foreground">
+          Open{" "}
+          <a href={code.verification_uri} target="_blank" rel="noreferrer" className="text-primary underline">
+            {code.verification_uri}
+          </a>{" "}
+          and enter this code:
+        </p>
+        <div className="flex items-center justify-center gap-2">
+          <code className="text-2xl font-mono font-semibold tracking-widest bg-muted px-3 py-1 rounded">
+            {code.user_code}
+          </code>
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-transparent"
+            onClick={() => navigator.clipboard.writeText(code.user_code)}
+          >
+            Copy
+          </Button>
+        </div>
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+          Waiting for authorization...
+        </div>
+        <Button variant="ghost" className="w-full" onClick={cancel}>
+          Cancel
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="oauth-client-id">OAuth App Client ID</Label>
+        <Input
+          id="oauth-client-id"
+          placeholder="Iv1.0123456789abcdef"
+          value={clientId}
+          onChange={(e) => setClientId(e.target.value)}
+          className="font-mono"
+          disabled={disabled || starting}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="oauth-scopes">Scopes</Label>
+        <Input
+          id="oauth-scopes"
+          value={scopes}
+          onChange={(e) => setScopes(e.target.value)}
+          className="font-mono"
+          disabled={disabled || starting}
+        />
+        <p className="text-xs text-muted-foreground">
+          The OAuth app must have device flow enabled. Tokens last until revoked on GitHub.
+        </p>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <Button className="w-full" onClick={start} disabled={!clientId.trim() || disabled || starting}>
+        {starting ? "Requesting code..." : "Sign in with GitHub"}
+      </Button>
+    </div>
+  )
+}
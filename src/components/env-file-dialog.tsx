@@ -0,0 +1,452 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useMemo } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircleIcon, ListIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { upsertVariable } from "@/lib/bulk-actions"
+import { describeError } from "@/lib/github-client"
+import { repositoryOrEnvironmentScope, type Secret, type Variable } from "@/lib/github-types"
+import {
+  detectFormat,
+  ENV_FILE_FORMATS,
+  parseEnvFile,
+  serializeEnvFile,
+  type EntryKind,
+  type EnvFileFormat,
+  type ImportedEntry,
+} from "@/lib/env-file"
+import { countTasks, startJob } from "@/lib/job-engine"
+
+interface EnvFileDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  repository: string
+  // Omit for repository-level secrets and variables
+  environment?: string
+  token: string
+  // Current contents of the target, used for conflict detection and export
+  secrets: Secret[]
+  variables: Variable[]
+  onImported?: () => void
+}
+
+type ConflictResolution = "overwrite" | "skip"
+
+interface ImportRow extends ImportedEntry {
+  include: boolean
+  resolution: ConflictResolution
+}
+
+type RowStatus = "new" | "conflict" | "unchanged"
+
+export function EnvFileDialog({
+  isOpen,
+  onClose,
+  organization,
+  repository,
+  environment,
+  token,
+  secrets,
+  variables,
+  onImported,
+}: EnvFileDialogProps) {
+  const client = useGitHubClient(token)
+  const [activeTab, setActiveTab] = useState("import")
+
+  // Import states
+  const [importText, setImportText] = useState("")
+  const [importFileName, setImportFileName] = useState<string>()
+  const [rows, setRows] = useState<ImportRow[] | null>(null)
+  const [parseError, setParseError] = useState("")
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isImporting = job?.status === "running" || job?.status === "paused"
+
+  // Export states
+  const [exportFormat, setExportFormat] = useState<EnvFileFormat>("env")
+
+  useEffect(() => {
+    if (isOpen) {
+      setImportText("")
+      setImportFileName(undefined)
+      setRows(null)
+      setParseError("")
+      setJobId(null)
+    }
+  }, [isOpen])
+
+  const existingVariables = useMemo(() => new Map(variables.map((v) => [v.name, v.value])), [variables])
+  const existingSecrets = useMemo(() => new Set(secrets.map((s) => s.name)), [secrets])
+
+  const getStatus = (row: ImportedEntry): RowStatus => {
+    if (row.kind === "secret") {
+      return existingSecrets.has(row.name) ? "conflict" : "new"
+    }
+    if (!existingVariables.has(row.name)) return "new"
+    return existingVariables.get(row.name) === row.value ? "unchanged" : "conflict"
+  }
+
+  const location = environment ? `${repository}/${environment}` : repository
+  const exportText = serializeEnvFile(
+    Object.fromEntries(variables.map((v) => [v.name, v.value])),
+    secrets.map((s) => s.name),
+    exportFormat,
+  )
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setImportText(await file.text())
+      setImportFileName(file.name)
+      setRows(null)
+    }
+    e.target.value = ""
+  }
+
+  const previewImport = () => {
+    setParseError("")
+    try {
+      const entries = parseEnvFile(importText, detectFormat(importText, importFileName))
+      setRows(
+        entries.map((entry) => ({
+          ...entry,
+          include: getStatus(entry) !== "unchanged",
+          // Existing values are kept unless the user opts in per key
+          resolution: "skip",
+        })),
+      )
+    } catch (error) {
+      setRows(null)
+      setParseError(describeError(error))
+    }
+  }
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows((current) => current && current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const rowsToWrite = (rows || []).filter((row) => {
+    if (!row.include) return false
+    const status = getStatus(row)
+    return status === "new" || (status === "conflict" && row.resolution === "overwrite")
+  })
+  const missingValues = rowsToWrite.filter((row) => row.kind === "secret" && !row.value)
+
+  const runImport = () => {
+    if (rowsToWrite.length === 0) return
+
+    const scope = repositoryOrEnvironmentScope(organization, repository, environment)
+    const id = startJob(
+      `Import into ${location}`,
+      rowsToWrite.map((row) => ({
+        label: `${row.kind} ${row.name}`,
+        run: async () => {
+          if (row.kind === "variable") {
+            return upsertVariable(client, scope, row.name, row.value, "overwrite")
+          }
+          await client.setSecret(scope, row.name, row.value)
+          return existingSecrets.has(row.name) ? "updated" : "created"
+        },
+      })),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          toast({
+            title: counts.failed > 0 ? "Import Incomplete" : "Import Complete",
+            description: `Imported ${counts.succeeded}/${counts.total} values into ${location}`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          if (counts.succeeded > 0) {
+            onImported?.()
+          }
+          if (counts.failed === 0) {
+            setRows(null)
+            setImportText("")
+          }
+        },
+      },
+    )
+    setJobId(id)
+  }
+
+  const copyExport = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText)
+      toast({ title: "Copied", description: "Export copied to clipboard" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to copy: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const downloadExport = () => {
+    const { extension, mimeType } = ENV_FILE_FORMATS[exportFormat]
+    const url = URL.createObjectURL(new Blob([exportText], { type: mimeType }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${repository}${environment ? `.${environment}` : ""}.${extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const statusBadge = (status: RowStatus) => {
+    if (status === "new") return <Badge className="text-xs">New</Badge>
+    if (status === "unchanged")
+      return (
+        <Badge variant="secondary" className="text-xs">
+          Unchanged
+        </Badge>
+      )
+    return (
+      <Badge variant="outline" className="text-xs border-yellow-500 text-yellow-500">
+        Exists
+      </Badge>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListIcon className="h-5 w-5" />
+            Import / Export
+          </DialogTitle>
+          <DialogDescription>
+            Move secrets and variables of <Badge variant="outline">{location}</Badge> in and out of .env, JSON and YAML
+            files
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="import" className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-sm">Source</CardTitle>
+                    <CardDescription className="text-xs">
+                      Paste or upload a .env, JSON or YAML file. Names that look like credentials are imported as
+                      secrets.
+                    </CardDescription>
+                  </div>
+                  <Input
+                    type="file"
+                    accept=".env,.txt,.json,.yml,.yaml"
+                    onChange={handleFileUpload}
+                    className="h-7 w-52 text-xs"
+                    disabled={isImporting}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea
+                  value={importText}
+                  onChange={(e) => {
+                    setImportText(e.target.value)
+                    setImportFileName(undefined)
+                    setRows(null)
+                  }}
+                  placeholder={"API_URL=https://api.example.com\nDB_PASSWORD=hunter2"}
+                  className="font-mono text-xs min-h-[140px]"
+                  disabled={isImporting}
+                />
+                {parseError && (
+                  <p className="text-xs text-destructive flex items-center gap-1">
+                    <AlertCircleIcon className="h-3 w-3" />
+                    {parseError}
+                  </p>
+                )}
+                <Button onClick={previewImport} disabled={!importText.trim() || isImporting} className="w-full">
+                  Preview
+                </Button>
+              </CardContent>
+            </Card>
+
+            {rows && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Preview</CardTitle>
+                  <CardDescription>
+                    {rows.length} keys found, {rowsToWrite.length} will be written. Choose whether existing values are
+                    overwritten or skipped.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ScrollArea className="h-72 border rounded-md">
+                    <div className="divide-y">
+                      {rows.map((row, index) => {
+                        const status = getStatus(row)
+                        return (
+                          <div
+                            key={row.name}
+                            className="grid grid-cols-[auto_180px_110px_1fr_auto] gap-2 items-center p-2"
+                          >
+                            <Checkbox
+                              checked={row.include}
+                              onCheckedChange={(checked) => updateRow(index, { include: checked as boolean })}
+                              disabled={isImporting}
+                            />
+                            <span className="font-mono text-xs truncate" title={row.name}>
+                              {row.name}
+                            </span>
+                            <Select
+                              value={row.kind}
+                              onValueChange={(value) => updateRow(index, { kind: value as EntryKind })}
+                              disabled={isImporting}
+                            >
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="variable">Variable</SelectItem>
+                                <SelectItem value="secret">Secret</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              type={row.kind === "secret" ? "password" : "text"}
+                              value={row.value}
+                              placeholder={row.kind === "secret" ? "Enter secret value" : "Value"}
+                              onChange={(e) => updateRow(index, { value: e.target.value })}
+                              className="h-8 font-mono text-xs"
+                              disabled={isImporting}
+                            />
+                            <div className="flex items-center gap-2 justify-end">
+                              {statusBadge(status)}
+                              {status === "conflict" && (
+                                <Select
+                                  value={row.resolution}
+                                  onValueChange={(value) =>
+                                    updateRow(index, { resolution: value as ConflictResolution })
+                                  }
+                                  disabled={isImporting}
+                                >
+                                  <SelectTrigger className="h-8 w-28 text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="skip">Skip</SelectItem>
+                                    <SelectItem value="overwrite">Overwrite</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            </div>
+                            {status === "conflict" && row.kind === "variable" && (
+                              <p className="col-start-2 col-span-4 text-xs text-muted-foreground font-mono truncate">
+                                Current: {existingVariables.get(row.name)}
+                              </p>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </ScrollArea>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs bg-transparent"
+                      onClick={() => setRows(rows.map((row) => ({ ...row, resolution: "overwrite" })))}
+                      disabled={isImporting}
+                    >
+                      Overwrite all
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs bg-transparent"
+                      onClick={() => setRows(rows.map((row) => ({ ...row, resolution: "skip" })))}
+                      disabled={isImporting}
+                    >
+                      Skip all existing
+                    </Button>
+                  </div>
+
+                  <Button
+                    onClick={runImport}
+                    disabled={isImporting || rowsToWrite.length === 0 || missingValues.length > 0}
+                    className="w-full"
+                  >
+                    {isImporting
+                      ? "Importing..."
+                      : missingValues.length > 0
+                        ? `Enter values for ${missingValues.length} secrets`
+                        : `Import ${rowsToWrite.length} values`}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {jobId && <JobProgress jobId={jobId} />}
+          </TabsContent>
+
+          <TabsContent value="export" className="space-y-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-sm">Export</CardTitle>
+                    <CardDescription className="text-xs">
+                      {variables.length} variables with values and {secrets.length} secret names. Secret values cannot
+                      be read from GitHub.
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs">Format</Label>
+                    <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as EnvFileFormat)}>
+                      <SelectTrigger className="h-8 w-24 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ENV_FILE_FORMATS) as EnvFileFormat[]).map((format) => (
+                          <SelectItem key={format} value={format}>
+                            {ENV_FILE_FORMATS[format].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea value={exportText} readOnly className="font-mono text-xs min-h-[200px]" />
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="outline" className="bg-transparent" onClick={copyExport}>
+                    Copy
+                  </Button>
+                  <Button onClick={downloadExport}>Download</Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
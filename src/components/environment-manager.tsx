@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,7 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
-import { KeyIcon, PlusIcon, SettingsIcon, TrashIcon, EditIcon, ListIcon } from "@/components/icons"
+import { KeyIcon, PlusIcon, SettingsIcon, TrashIcon, EditIcon, ListIcon, RepositoryIcon } from "@/components/icons"
 import { Checkbox } from "@/components/ui/checkbox"
 import {
   AlertDialog,
@@ -22,22 +22,38 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
+import { ToastAction } from "@/components/ui/toast"
 import { toast } from "@/hooks/use-toast"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { useTokenCapabilities } from "@/hooks/use-token-capabilities"
+import { capabilityBlocker } from "@/lib/token-capabilities"
+import { CapabilityNotice } from "@/components/capability-report"
+import { upsertVariable } from "@/lib/bulk-actions"
+import { describeError } from "@/lib/github-client"
+import { repositoryOrEnvironmentScope, type Secret, type Variable } from "@/lib/github-types"
+import { countTasks, startJob } from "@/lib/job-engine"
 import { SecretsListDialog } from "@/components/secrets-list-dialog"
-
-interface Secret {
-  name: string
-  created_at: string
-  updated_at: string
-}
-
-interface Variable {
-  name: string
-  value: string
-  created_at: string
-  updated_at: string
-}
+import { ProtectionRulesDialog } from "@/components/protection-rules-dialog"
+import { EnvFileDialog } from "@/components/env-file-dialog"
+import { CloneEnvironmentDialog } from "@/components/clone-environment-dialog"
+import { JobProgress } from "@/components/job-progress"
+import { EnvironmentPicker } from "@/components/environment-picker"
+import { UndoHistoryDialog } from "@/components/undo-history-dialog"
+import {
+  recordUndo,
+  restoreUndoEntry,
+  snapshotSecretDeletion,
+  snapshotVariable,
+  UNDO_TOAST_DURATION_MS,
+  type UndoEntry,
+} from "@/lib/undo-history"
+import {
+  countRepositoriesPerEnvironment,
+  environmentNames,
+  existingTargets,
+  type EnvironmentsByRepository,
+} from "@/lib/environment-names"
 
 interface Repository {
   name: string
@@ -49,9 +65,14 @@ interface EnvironmentManagerProps {
   onClose: () => void
   organization: string
   repository: string
-  environment: string
+  // Omit to manage repository-level secrets and variables
+  environment?: string
   token: string
   allRepositories: Repository[]
+  // Environment names per repository, offered as bulk targets
+  environments?: EnvironmentsByRepository
+  // Called after environments were created or their protection rules changed
+  onEnvironmentsChanged?: () => void
 }
 
 export function EnvironmentManager({
@@ -62,7 +83,13 @@ export function EnvironmentManager({
   environment,
   token,
   allRepositories,
+  environments = {},
+  onEnvironmentsChanged,
 }: EnvironmentManagerProps) {
+  const client = useGitHubClient(token)
+  const capabilities = useTokenCapabilities(token)
+  const writeBlocker = capabilityBlocker(capabilities, "repositorySecrets", { owner: organization, repository })
+  const environmentBlocker = capabilityBlocker(capabilities, "environments", { owner: organization, repository })
   const [secrets, setSecrets] = useState<Secret[]>([])
   const [variables, setVariables] = useState<Variable[]>([])
   const [loading, setLoading] = useState(false)
@@ -73,7 +100,9 @@ export function EnvironmentManager({
   const [secretValue, setSecretValue] = useState("")
   const [variableName, setVariableName] = useState("")
   const [variableValue, setVariableValue] = useState("")
-  const [isCreating, setIsCreating] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isCreating = job?.status === "running" || job?.status === "paused"
   const [isDeleting, setIsDeleting] = useState<string>("")
 
   // Edit states
@@ -84,41 +113,40 @@ export function EnvironmentManager({
 
   // Bulk operation states
   const [selectedRepos, setSelectedRepos] = useState<string[]>([repository])
-  const [selectedEnvironments, setSelectedEnvironments] = useState<string[]>([environment])
+  const [selectedEnvironments, setSelectedEnvironments] = useState<string[]>(environment ? [environment] : [])
   const [bulkMode, setBulkMode] = useState(false)
 
   const [isListDialogOpen, setIsListDialogOpen] = useState(false)
-
-  const commonEnvironments = ["production", "staging", "development", "preview"]
+  const [isProtectionOpen, setIsProtectionOpen] = useState(false)
+  const [isEnvFileOpen, setIsEnvFileOpen] = useState(false)
+  const [isCloneOpen, setIsCloneOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const protectionTarget = useMemo(
+    () => (environment ? { repo: repository, env: environment } : null),
+    [repository, environment],
+  )
 
   useEffect(() => {
     if (isOpen) {
       fetchSecrets()
       fetchVariables()
       setSelectedRepos([repository])
-      setSelectedEnvironments([environment])
+      setSelectedEnvironments(environment ? [environment] : [])
     }
   }, [isOpen, repository, environment])
 
   const fetchSecrets = async () => {
     setLoading(true)
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/secrets`,
-        {
-          headers: getGitHubHeaders(token),
-        },
-      )
-
-      if (response.ok) {
-        const data = await response.json()
-        setSecrets(data.secrets || [])
-      }
+      await client.listSecrets(repositoryOrEnvironmentScope(organization, repository, environment), (_page, loaded) => {
+        setSecrets(loaded)
+        setLoading(false)
+      })
     } catch (error) {
       console.error("Error fetching secrets:", error)
       toast({
         title: "Error",
-        description: "Failed to fetch secrets",
+        description: `Failed to fetch secrets: ${describeError(error)}`,
         variant: "destructive",
       })
     } finally {
@@ -128,159 +156,151 @@ export function EnvironmentManager({
 
   const fetchVariables = async () => {
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/variables`,
-        {
-          headers: getGitHubHeaders(token),
-        },
+      await client.listVariables(repositoryOrEnvironmentScope(organization, repository, environment), (_page, loaded) =>
+        setVariables(loaded),
       )
-
-      if (response.ok) {
-        const data = await response.json()
-        setVariables(data.variables || [])
-      }
     } catch (error) {
       console.error("Error fetching variables:", error)
     }
   }
 
-  const createSecret = async () => {
-    if (!secretName.trim() || !secretValue.trim()) return
+  const repositoryBlocker = (repo: string) =>
+    capabilityBlocker(capabilities, "repositorySecrets", { owner: organization, repository: repo })
 
-    setIsCreating(true)
-    try {
-      const targetRepos = bulkMode ? selectedRepos : [repository]
-      const targetEnvs = bulkMode ? selectedEnvironments : [environment]
-      let successCount = 0
-      const totalCount = targetRepos.length * targetEnvs.length
-
-      for (const repo of targetRepos) {
-        for (const env of targetEnvs) {
-          // For GitHub API, we need to encrypt the secret value properly
-          // This is a simplified version - in production, you'd use libsodium
-          const response = await fetch(
-            `${getGitHubApiUrl()}/repos/${organization}/${repo}/environments/${env}/secrets/${secretName}`,
-            {
-              method: "PUT",
-              headers: {
-                ...getGitHubHeaders(token),
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                encrypted_value: btoa(secretValue), // Simplified - use proper encryption in production
-              }),
-            },
-          )
-
-          if (response.ok) {
-            successCount++
-          }
-        }
-      }
+  // Repository-level mode writes once per repository instead of once per environment. Bulk
+  // writes never create environments, so only repositories that have them are targeted, and
+  // repositories where GitHub already refused a write are left out in either mode.
+  const getTargets = (): Array<{ repo: string; env?: string }> => {
+    if (!bulkMode) {
+      return [{ repo: repository, env: environment }]
+    }
+    const writable = selectedRepos.filter((repo) => !repositoryBlocker(repo))
+    if (!environment) {
+      return writable.map((repo) => ({ repo }))
+    }
+    return existingTargets(environments, writable, selectedEnvironments)
+  }
 
-      toast({
-        title: "Secret Created",
-        description: `Successfully created secret in ${successCount}/${totalCount} locations`,
-      })
+  const locationCount = getTargets().length
+
+  // Writes to every target location as one job, so bulk runs can be paused, cancelled and retried
+  const writeToTargets = (
+    title: string,
+    kind: "secret" | "variable",
+    write: (repo: string, env: string | undefined) => Promise<string | void>,
+    refresh: () => void,
+  ) => {
+    const id = startJob(
+      title,
+      getTargets().map(({ repo, env }) => ({ label: `${repo}/${env ?? "repository"}`, run: () => write(repo, env) })),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          const label = kind === "secret" ? "Secret" : "Variable"
+          toast({
+            title: counts.failed > 0 ? `${label} Partially Saved` : `${label} Saved`,
+            description: `Saved ${kind} in ${counts.succeeded}/${counts.total} locations, ${counts.failed} failed`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          refresh()
+        },
+      },
+    )
+    setJobId(id)
+  }
 
-      setSecretName("")
-      setSecretValue("")
-      fetchSecrets()
-    } catch (error) {
-      console.error("Error creating secret:", error)
-      toast({
-        title: "Error",
-        description: "Failed to create secret",
-        variant: "destructive",
-      })
-    } finally {
-      setIsCreating(false)
-    }
+  const createSecret = () => {
+    if (!secretName.trim() || !secretValue.trim()) return
+
+    const name = secretName
+    const value = secretValue
+    writeToTargets(
+      `Create secret ${name}`,
+      "secret",
+      (repo, env) => client.setSecret(repositoryOrEnvironmentScope(organization, repo, env), name, value),
+      fetchSecrets,
+    )
+    setSecretName("")
+    setSecretValue("")
   }
 
-  const createVariable = async () => {
+  const createVariable = () => {
     if (!variableName.trim() || !variableValue.trim()) return
 
-    setIsCreating(true)
-    try {
-      const targetRepos = bulkMode ? selectedRepos : [repository]
-      const targetEnvs = bulkMode ? selectedEnvironments : [environment]
-      let successCount = 0
-      const totalCount = targetRepos.length * targetEnvs.length
-
-      for (const repo of targetRepos) {
-        for (const env of targetEnvs) {
-          const response = await fetch(
-            `${getGitHubApiUrl()}/repos/${organization}/${repo}/environments/${env}/variables`,
-            {
-              method: "POST",
-              headers: {
-                ...getGitHubHeaders(token),
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                name: variableName,
-                value: variableValue,
-              }),
-            },
-          )
-
-          if (response.ok) {
-            successCount++
-          }
-        }
-      }
+    const name = variableName
+    const value = variableValue
+    writeToTargets(
+      `Create variable ${name}`,
+      "variable",
+      (repo, env) =>
+        upsertVariable(client, repositoryOrEnvironmentScope(organization, repo, env), name, value, "overwrite"),
+      fetchVariables,
+    )
+    setVariableName("")
+    setVariableValue("")
+  }
 
+  // Secrets can only be recreated with a new value, which the history dialog asks for
+  const undoChange = async (entry: UndoEntry) => {
+    if (entry.kind === "secret") {
+      setIsHistoryOpen(true)
+      return
+    }
+    try {
+      await restoreUndoEntry(client, entry)
       toast({
-        title: "Variable Created",
-        description: `Successfully created variable in ${successCount}/${totalCount} locations`,
+        title: "Change Undone",
+        description: `Restored the previous value of ${entry.name}`,
       })
-
-      setVariableName("")
-      setVariableValue("")
       fetchVariables()
     } catch (error) {
-      console.error("Error creating variable:", error)
+      console.error("Error undoing change:", error)
       toast({
         title: "Error",
-        description: "Failed to create variable",
+        description: `Failed to undo change: ${describeError(error)}`,
         variant: "destructive",
       })
-    } finally {
-      setIsCreating(false)
     }
   }
 
+  // Without a snapshot there is nothing to undo, so the toast has no action
+  const toastWithUndo = (title: string, description: string, entry: UndoEntry | null) =>
+    toast({
+      title,
+      description,
+      ...(entry && {
+        duration: UNDO_TOAST_DURATION_MS,
+        action: (
+          <ToastAction altText={`Undo the change to ${entry.name}`} onClick={() => undoChange(entry)}>
+            Undo
+          </ToastAction>
+        ),
+      }),
+    })
+
+  // Captures the current value before the write, to be recorded once it succeeds. Falls back to
+  // GitHub when the list is still loading; there is nothing to capture for a variable that does not exist.
+  const snapshotBeforeWrite = async (name: string, action: UndoEntry["action"]) => {
+    const scope = repositoryOrEnvironmentScope(organization, repository, environment)
+    const current = variables.find((variable) => variable.name === name) ?? (await client.getVariable(scope, name))
+    return current ? snapshotVariable(client, scope, current, action) : null
+  }
+
   const updateSecret = async (secretName: string, newValue: string) => {
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/secrets/${secretName}`,
-        {
-          method: "PUT",
-          headers: {
-            ...getGitHubHeaders(token),
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            encrypted_value: btoa(newValue),
-          }),
-        },
-      )
-
-      if (response.ok) {
-        toast({
-          title: "Secret Updated",
-          description: `Successfully updated ${secretName}`,
-        })
-        setEditingSecret("")
-        setEditSecretValue("")
-        fetchSecrets()
-      }
+      await client.setSecret(repositoryOrEnvironmentScope(organization, repository, environment), secretName, newValue)
+      toast({
+        title: "Secret Updated",
+        description: `Successfully updated ${secretName}`,
+      })
+      setEditingSecret("")
+      setEditSecretValue("")
+      fetchSecrets()
     } catch (error) {
       console.error("Error updating secret:", error)
       toast({
         title: "Error",
-        description: "Failed to update secret",
+        description: `Failed to update secret: ${describeError(error)}`,
         variant: "destructive",
       })
     }
@@ -288,34 +308,21 @@ export function EnvironmentManager({
 
   const updateVariable = async (variableName: string, newValue: string) => {
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/variables/${variableName}`,
-        {
-          method: "PATCH",
-          headers: {
-            ...getGitHubHeaders(token),
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            value: newValue,
-          }),
-        },
+      const snapshot = await snapshotBeforeWrite(variableName, "update")
+      await client.updateVariable(
+        repositoryOrEnvironmentScope(organization, repository, environment),
+        variableName,
+        newValue,
       )
-
-      if (response.ok) {
-        toast({
-          title: "Variable Updated",
-          description: `Successfully updated ${variableName}`,
-        })
-        setEditingVariable("")
-        setEditVariableValue("")
-        fetchVariables()
-      }
+      toastWithUndo("Variable Updated", `Successfully updated ${variableName}`, snapshot ? recordUndo(snapshot) : null)
+      setEditingVariable("")
+      setEditVariableValue("")
+      fetchVariables()
     } catch (error) {
       console.error("Error updating variable:", error)
       toast({
         title: "Error",
-        description: "Failed to update variable",
+        description: `Failed to update variable: ${describeError(error)}`,
         variant: "destructive",
       })
     }
@@ -324,26 +331,18 @@ export function EnvironmentManager({
   const deleteSecret = async (secretName: string) => {
     setIsDeleting(secretName)
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/secrets/${secretName}`,
-        {
-          method: "DELETE",
-          headers: getGitHubHeaders(token),
-        },
-      )
-
-      if (response.ok) {
-        toast({
-          title: "Secret Deleted",
-          description: `Successfully deleted ${secretName}`,
-        })
-        fetchSecrets()
-      }
+      const scope = repositoryOrEnvironmentScope(organization, repository, environment)
+      const current =
+        secrets.find((secret) => secret.name === secretName) ?? (await client.getSecret(scope, secretName))
+      const snapshot = current && (await snapshotSecretDeletion(client, scope, current))
+      await client.deleteSecret(scope, secretName)
+      toastWithUndo("Secret Deleted", `Successfully deleted ${secretName}`, snapshot ? recordUndo(snapshot) : null)
+      fetchSecrets()
     } catch (error) {
       console.error("Error deleting secret:", error)
       toast({
         title: "Error",
-        description: "Failed to delete secret",
+        description: `Failed to delete secret: ${describeError(error)}`,
         variant: "destructive",
       })
     } finally {
@@ -354,26 +353,15 @@ export function EnvironmentManager({
   const deleteVariable = async (variableName: string) => {
     setIsDeleting(variableName)
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/variables/${variableName}`,
-        {
-          method: "DELETE",
-          headers: getGitHubHeaders(token),
-        },
-      )
-
-      if (response.ok) {
-        toast({
-          title: "Variable Deleted",
-          description: `Successfully deleted ${variableName}`,
-        })
-        fetchVariables()
-      }
+      const snapshot = await snapshotBeforeWrite(variableName, "delete")
+      await client.deleteVariable(repositoryOrEnvironmentScope(organization, repository, environment), variableName)
+      toastWithUndo("Variable Deleted", `Successfully deleted ${variableName}`, snapshot ? recordUndo(snapshot) : null)
+      fetchVariables()
     } catch (error) {
       console.error("Error deleting variable:", error)
       toast({
         title: "Error",
-        description: "Failed to delete variable",
+        description: `Failed to delete variable: ${describeError(error)}`,
         variant: "destructive",
       })
     } finally {
@@ -389,28 +377,70 @@ export function EnvironmentManager({
     }
   }
 
-  const handleEnvSelection = (envName: string, checked: boolean) => {
-    if (checked) {
-      setSelectedEnvironments([...selectedEnvironments, envName])
-    } else {
-      setSelectedEnvironments(selectedEnvironments.filter((e) => e !== envName))
-    }
-  }
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <SettingsIcon className="h-5 w-5" />
-            Environment Management
+            {environment ? "Environment Management" : "Repository Management"}
           </DialogTitle>
           <DialogDescription>
-            Manage secrets and variables for <Badge variant="outline">{repository}</Badge> in{" "}
-            <Badge variant="outline">{environment}</Badge>
+            {environment ? (
+              <>
+                Manage secrets and variables for <Badge variant="outline">{repository}</Badge> in{" "}
+                <Badge variant="outline">{environment}</Badge>
+              </>
+            ) : (
+              <>
+                Manage repository-wide secrets and variables for <Badge variant="outline">{repository}</Badge>
+              </>
+            )}
           </DialogDescription>
+          <div className="flex items-center gap-2">
+            {environment && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 bg-transparent"
+                onClick={() => setIsProtectionOpen(true)}
+                disabled={!!environmentBlocker}
+              >
+                <SettingsIcon className="h-3 w-3" />
+                Protection Rules
+              </Button>
+            )}
+            {environment && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 bg-transparent"
+                onClick={() => setIsCloneOpen(true)}
+                disabled={!!environmentBlocker}
+              >
+                <RepositoryIcon className="h-3 w-3" />
+                Clone Environment
+              </Button>
+            )}
+            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => setIsEnvFileOpen(true)}>
+              <ListIcon className="h-3 w-3" />
+              Import / Export
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => setIsHistoryOpen(true)}>
+              <ListIcon className="h-3 w-3" />
+              History
+            </Button>
+          </div>
         </DialogHeader>
 
+        <CapabilityNotice
+          blockers={[
+            writeBlocker,
+            environment ? environmentBlocker : null,
+            ...(bulkMode ? selectedRepos.map(repositoryBlocker) : []),
+          ]}
+        />
+
         <div className="space-y-6">
           {/* Bulk Mode Toggle */}
           <Card>
@@ -419,7 +449,9 @@ export function EnvironmentManager({
                 <div>
                   <CardTitle className="text-sm">Bulk Operations</CardTitle>
                   <CardDescription className="text-xs">
-                    Apply changes to multiple repositories and environments
+                    {environment
+                      ? "Apply changes to multiple repositories and environments"
+                      : "Apply changes to multiple repositories"}
                   </CardDescription>
                 </div>
                 <Switch checked={bulkMode} onCheckedChange={setBulkMode} />
@@ -448,28 +480,29 @@ export function EnvironmentManager({
                   </div>
 
                   {/* Environment Selection */}
-                  <div className="space-y-2">
-                    <Label className="text-xs font-medium">Environments ({selectedEnvironments.length} selected)</Label>
-                    <div className="space-y-1 border rounded-md p-2">
-                      {commonEnvironments.map((env) => (
-                        <div key={env} className="flex items-center space-x-2">
-                          <Checkbox
-                            id={`env-${env}`}
-                            checked={selectedEnvironments.includes(env)}
-                            onCheckedChange={(checked) => handleEnvSelection(env, checked as boolean)}
-                          />
-                          <Label htmlFor={`env-${env}`} className="text-xs capitalize">
-                            {env}
-                          </Label>
-                        </div>
-                      ))}
+                  {environment && (
+                    <div className="space-y-2">
+                      <Label className="text-xs font-medium">
+                        Environments ({selectedEnvironments.length} selected)
+                      </Label>
+                      <div className="border rounded-md p-2">
+                        <EnvironmentPicker
+                          idPrefix="env"
+                          options={environmentNames(environments, selectedRepos)}
+                          counts={countRepositoriesPerEnvironment(environments)}
+                          selected={selectedEnvironments}
+                          onChange={setSelectedEnvironments}
+                        />
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </CardContent>
             )}
           </Card>
 
+          {bulkMode && jobId && <JobProgress jobId={jobId} />}
+
           <Tabs value={activeTab} onValueChange={setActiveTab}>
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="secrets">Secrets</TabsTrigger>
@@ -526,14 +559,10 @@ export function EnvironmentManager({
                   </div>
                   <Button
                     onClick={createSecret}
-                    disabled={!secretName || !secretValue || isCreating}
+                    disabled={!secretName || !secretValue || isCreating || !!writeBlocker}
                     className="w-full"
                   >
-                    {isCreating
-                      ? "Creating..."
-                      : bulkMode
-                        ? `Create in ${selectedRepos.length * selectedEnvironments.length} locations`
-                        : "Create Secret"}
+                    {isCreating ? "Creating..." : bulkMode ? `Create in ${locationCount} locations` : "Create Secret"}
                   </Button>
                 </CardContent>
               </Card>
@@ -606,6 +635,7 @@ export function EnvironmentManager({
                                     setEditSecretValue("")
                                   }}
                                   className="h-8 w-8 p-0"
+                                  disabled={!!writeBlocker}
                                 >
                                   <EditIcon className="h-3 w-3" />
                                 </Button>
@@ -615,7 +645,7 @@ export function EnvironmentManager({
                                       size="sm"
                                       variant="ghost"
                                       className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                                      disabled={isDeleting === secret.name}
+                                      disabled={isDeleting === secret.name || !!writeBlocker}
                                     >
                                       {isDeleting === secret.name ? (
                                         <div className="animate-spin rounded-full h-3 w-3 border-b border-current"></div>
@@ -628,8 +658,9 @@ export function EnvironmentManager({
                                     <AlertDialogHeader>
                                       <AlertDialogTitle>Delete Secret</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to delete the secret "{secret.name}"? This action cannot
-                                        be undone.
+                                        Are you sure you want to delete the secret "{secret.name}"? It can be recreated
+                                        from History, but GitHub never returns secret values, so the value has to be
+                                        entered again.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -703,14 +734,10 @@ export function EnvironmentManager({
                   </div>
                   <Button
                     onClick={createVariable}
-                    disabled={!variableName || !variableValue || isCreating}
+                    disabled={!variableName || !variableValue || isCreating || !!writeBlocker}
                     className="w-full"
                   >
-                    {isCreating
-                      ? "Creating..."
-                      : bulkMode
-                        ? `Create in ${selectedRepos.length * selectedEnvironments.length} locations`
-                        : "Create Variable"}
+                    {isCreating ? "Creating..." : bulkMode ? `Create in ${locationCount} locations` : "Create Variable"}
                   </Button>
                 </CardContent>
               </Card>
@@ -782,6 +809,7 @@ export function EnvironmentManager({
                                     setEditVariableValue(variable.value)
                                   }}
                                   className="h-8 w-8 p-0"
+                                  disabled={!!writeBlocker}
                                 >
                                   <EditIcon className="h-3 w-3" />
                                 </Button>
@@ -791,7 +819,7 @@ export function EnvironmentManager({
                                       size="sm"
                                       variant="ghost"
                                       className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                                      disabled={isDeleting === variable.name}
+                                      disabled={isDeleting === variable.name || !!writeBlocker}
                                     >
                                       {isDeleting === variable.name ? (
                                         <div className="animate-spin rounded-full h-3 w-3 border-b border-current"></div>
@@ -804,8 +832,8 @@ export function EnvironmentManager({
                                     <AlertDialogHeader>
                                       <AlertDialogTitle>Delete Variable</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to delete the variable "{variable.name}"? This action
-                                        cannot be undone.
+                                        Are you sure you want to delete the variable "{variable.name}"? Its value can be
+                                        restored from History.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -841,6 +869,53 @@ export function EnvironmentManager({
         environment={environment}
         token={token}
       />
+
+      <EnvFileDialog
+        isOpen={isEnvFileOpen}
+        onClose={() => setIsEnvFileOpen(false)}
+        organization={organization}
+        repository={repository}
+        environment={environment}
+        token={token}
+        secrets={secrets}
+        variables={variables}
+        onImported={() => {
+          fetchSecrets()
+          fetchVariables()
+        }}
+      />
+
+      {environment && (
+        <CloneEnvironmentDialog
+          isOpen={isCloneOpen}
+          onClose={() => setIsCloneOpen(false)}
+          organization={organization}
+          repository={repository}
+          environment={environment}
+          token={token}
+          allRepositories={allRepositories}
+          onCloned={onEnvironmentsChanged}
+        />
+      )}
+
+      <UndoHistoryDialog
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        organization={organization}
+        token={token}
+        repository={repository}
+        environment={environment}
+        onRestored={(entry) => (entry.kind === "secret" ? fetchSecrets() : fetchVariables())}
+      />
+
+      <ProtectionRulesDialog
+        isOpen={isProtectionOpen}
+        onClose={() => setIsProtectionOpen(false)}
+        organization={organization}
+        token={token}
+        repositories={allRepositories}
+        target={protectionTarget}
+      />
     </Dialog>
   )
 }
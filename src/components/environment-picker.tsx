@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+
+interface EnvironmentPickerProps {
+  // Discovered environment names to choose from
+  options: string[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  // Number of repositories that define each environment, shown next to its name
+  counts?: Record<string, number>
+  // Lets the user add a name no repository has yet, for operations that create environments
+  allowCustom?: boolean
+  idPrefix: string
+  disabled?: boolean
+}
+
+// Filterable checklist of environment names
+export function EnvironmentPicker({
+  options,
+  selected,
+  onChange,
+  counts,
+  allowCustom,
+  idPrefix,
+  disabled,
+}: EnvironmentPickerProps) {
+  const [filter, setFilter] = useState("")
+  const [customName, setCustomName] = useState("")
+
+  // Selected names stay listed even if no repository has them (yet)
+  const allOptions = Array.from(new Set([...options, ...selected])).sort()
+  const visible = allOptions.filter((env) => env.toLowerCase().includes(filter.trim().toLowerCase()))
+
+  const toggle = (env: string, checked: boolean) => {
+    onChange(checked ? [...selected, env] : selected.filter((e) => e !== env))
+  }
+
+  const addCustom = () => {
+    const name = customName.trim()
+    if (name && !selected.includes(name)) {
+      onChange([...selected, name])
+    }
+    setCustomName("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Filter environments..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="h-7 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange(Array.from(new Set([...selected, ...visible])))}
+          className="text-xs h-7 bg-transparent"
+          disabled={disabled}
+        >
+          Select All
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([])}
+          className="text-xs h-7 bg-transparent"
+          disabled={disabled}
+        >
+          Clear
+        </Button>
+      </div>
+      <ScrollArea className="h-32">
+        <div className="space-y-2">
+          {visible.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-4">
+              {allOptions.length === 0 ? "No environments found" : "No environments match the filter"}
+            </p>
+          ) : (
+            visible.map((env) => (
+              <div key={env} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-${env}`}
+                  checked={selected.includes(env)}
+                  onCheckedChange={(checked) => toggle(env, checked as boolean)}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${idPrefix}-${env}`} className="text-sm flex-1">
+                  {env}
+                </Label>
+                {counts && (
+                  <span className="text-xs text-muted-foreground">{counts[env] ? `${counts[env]} repos` : "new"}</span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+      {allowCustom && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Add environment name..."
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addCustom()}
+            className="h-7 text-xs"
+            disabled={disabled}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={addCustom}
+            className="text-xs h-7 bg-transparent"
+            disabled={disabled || !customName.trim()}
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
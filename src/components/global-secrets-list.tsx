@@ -4,12 +4,34 @@ import type React from "react"
 
 import { useState, useEffect } from "react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { KeyIcon, SettingsIcon, ListIcon, AlertCircleIcon } from "@/components/icons"
+import { RotateSecretDialog } from "@/components/rotate-secret-dialog"
+import { ConsistencyReport } from "@/components/consistency-report"
 import { toast } from "@/hooks/use-toast"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import type { BulkItemKind } from "@/lib/bulk-probe"
+import { isNotFoundError } from "@/lib/github-client"
+import { environmentScope } from "@/lib/github-types"
+import { environmentNames, type EnvironmentsByRepository } from "@/lib/environment-names"
+import {
+  describeRotationLocation,
+  getRotationHistory,
+  getRotationMaxAgeDays,
+  isRotationDue,
+  secretAgeDays,
+  rotationScope,
+  setRotationMaxAgeDays,
+  type RotationLocation,
+  type RotationRecord,
+} from "@/lib/secret-rotation"
+import { capabilityBlocker, getTokenCapabilities } from "@/lib/token-capabilities"
 
 interface Repository {
   name: string
@@ -18,10 +40,8 @@ interface Repository {
 
 interface SecretLocation {
   name: string
-  locations: Array<{
-    repository: string
-    environment: string
-  }>
+  // Environment, repository and organization secrets; only the environment ones take part in gap checks
+  locations: Array<RotationLocation & { updatedAt: string }>
   missingIn: Array<{
     repository: string
     environment: string
@@ -47,117 +67,193 @@ interface GlobalSecretsListProps {
   onClose: () => void
   organization: string
   repositories: Repository[]
+  // Environment names per repository; only these are scanned
+  environments: EnvironmentsByRepository
   token: string
   trigger?: React.ReactNode
 }
 
-const COMMON_ENVIRONMENTS = ["production", "staging", "development", "preview"]
+type ScannedLocation = { repository: string; environment: string }
 
-export function GlobalSecretsList({ isOpen, onClose, organization, repositories, token }: GlobalSecretsListProps) {
+export function GlobalSecretsList({
+  isOpen,
+  onClose,
+  organization,
+  repositories,
+  environments,
+  token,
+}: GlobalSecretsListProps) {
+  const client = useGitHubClient(token)
   const [secretsMap, setSecretsMap] = useState<Map<string, SecretLocation>>(new Map())
   const [variablesMap, setVariablesMap] = useState<Map<string, VariableLocation>>(new Map())
+  const [scannedLocations, setScannedLocations] = useState<ScannedLocation[]>([])
+  const [failedLocations, setFailedLocations] = useState<Record<BulkItemKind, ScannedLocation[]>>({
+    secret: [],
+    variable: [],
+  })
+  // "all" or a single environment name
+  const [environmentFilter, setEnvironmentFilter] = useState("all")
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("secrets")
+  const [maxAgeDays, setMaxAgeDays] = useState(getRotationMaxAgeDays)
+  const [rotatingSecret, setRotatingSecret] = useState<SecretLocation | null>(null)
+  const [rotationHistory, setRotationHistory] = useState<RotationRecord[]>([])
 
   useEffect(() => {
     if (isOpen) {
       fetchAllSecretsAndVariables()
+      setRotationHistory(getRotationHistory(organization))
     }
   }, [isOpen])
 
+  const updateMaxAgeDays = (value: string) => {
+    const days = Number.parseInt(value, 10)
+    if (Number.isFinite(days) && days > 0) {
+      setMaxAgeDays(days)
+      setRotationMaxAgeDays(days)
+    }
+  }
+
   const fetchAllSecretsAndVariables = async () => {
     setLoading(true)
     const newSecretsMap = new Map<string, SecretLocation>()
     const newVariablesMap = new Map<string, VariableLocation>()
 
     try {
-      // Fetch secrets and variables for each repo/env combination
-      for (const repo of repositories) {
-        for (const env of COMMON_ENVIRONMENTS) {
-          // Fetch secrets
-          try {
-            const secretsResponse = await fetch(
-              `${getGitHubApiUrl()}/repos/${organization}/${repo.name}/environments/${env}/secrets`,
-              {
-                headers: getGitHubHeaders(token),
-              },
-            )
-
-            if (secretsResponse.ok) {
-              const secretsData = await secretsResponse.json()
-              const secrets = secretsData.secrets || []
-
-              secrets.forEach((secret: { name: string }) => {
-                if (!newSecretsMap.has(secret.name)) {
-                  newSecretsMap.set(secret.name, {
-                    name: secret.name,
-                    locations: [],
-                    missingIn: [],
-                  })
-                }
-                newSecretsMap.get(secret.name)!.locations.push({
-                  repository: repo.name,
-                  environment: env,
-                })
-              })
-            }
-          } catch (error) {
-            console.error(`Error fetching secrets for ${repo.name}/${env}:`, error)
+      // Fetch secrets and variables for each repo/env combination. Requests are issued together;
+      // the shared scheduler keeps concurrency and rate limits in check.
+      const targets = repositories.flatMap((repo) =>
+        (environments[repo.name] || []).map((env) => ({ repo: repo.name, env })),
+      )
+      // Locations whose listing failed; a name cannot be called missing there
+      const failed: Record<BulkItemKind, ScannedLocation[]> = { secret: [], variable: [] }
+
+      // Resolves to null when the environment was deleted since it was listed
+      const fetchOrEmpty = async <T,>(kind: BulkItemKind, repo: string, env: string, load: () => Promise<T[]>) => {
+        try {
+          return await load()
+        } catch (error) {
+          // Environments that do not exist in a repository are expected to 404
+          if (isNotFoundError(error)) {
+            return null
           }
+          failed[kind].push({ repository: repo, environment: env })
+          console.error(`Error fetching ${kind}s for ${repo}/${env}:`, error)
+          return []
+        }
+      }
+
+      const fetched = await Promise.all(
+        targets.map(async ({ repo, env }) => {
+          const scope = environmentScope(organization, repo, env)
+          const [secrets, variables] = await Promise.all([
+            fetchOrEmpty("secret", repo, env, () => client.listSecrets(scope)),
+            fetchOrEmpty("variable", repo, env, () => client.listVariables(scope)),
+          ])
+          return { repo, env, secrets, variables }
+        }),
+      )
+
+      // Only environments that still exist count as places where a name can be missing
+      const existing = fetched.filter(({ secrets, variables }) => secrets !== null || variables !== null)
 
-          // Fetch variables
+      // Repository and organization secrets are listed so they can be rotated too. The organization
+      // is skipped when the token is known not to reach its secrets.
+      const outerLocations: RotationLocation[] = repositories.map((repo) => ({ repository: repo.name }))
+      if (!capabilityBlocker(getTokenCapabilities(token), "organizationSecrets", { owner: organization })) {
+        outerLocations.push({})
+      }
+      let outerFailures = 0
+      const outer = await Promise.all(
+        outerLocations.map(async (location) => {
           try {
-            const variablesResponse = await fetch(
-              `${getGitHubApiUrl()}/repos/${organization}/${repo.name}/environments/${env}/variables`,
-              {
-                headers: getGitHubHeaders(token),
-              },
-            )
-
-            if (variablesResponse.ok) {
-              const variablesData = await variablesResponse.json()
-              const variables = variablesData.variables || []
-
-              variables.forEach((variable: { name: string; value: string }) => {
-                if (!newVariablesMap.has(variable.name)) {
-                  newVariablesMap.set(variable.name, {
-                    name: variable.name,
-                    locations: [],
-                    missingIn: [],
-                  })
-                }
-                newVariablesMap.get(variable.name)!.locations.push({
-                  repository: repo.name,
-                  environment: env,
-                  value: variable.value,
-                })
-              })
-            }
+            return { location, secrets: await client.listSecrets(rotationScope(organization, location)) }
           } catch (error) {
-            console.error(`Error fetching variables for ${repo.name}/${env}:`, error)
+            outerFailures++
+            console.error(`Error fetching secrets for ${describeRotationLocation(location)}:`, error)
+            return { location, secrets: [] }
           }
-        }
+        }),
+      )
+
+      for (const { repo, env, secrets, variables } of existing) {
+        secrets?.forEach((secret) => {
+          if (!newSecretsMap.has(secret.name)) {
+            newSecretsMap.set(secret.name, {
+              name: secret.name,
+              locations: [],
+              missingIn: [],
+            })
+          }
+          newSecretsMap.get(secret.name)!.locations.push({
+            repository: repo,
+            environment: env,
+            updatedAt: secret.updated_at,
+          })
+        })
+
+        variables?.forEach((variable) => {
+          if (!newVariablesMap.has(variable.name)) {
+            newVariablesMap.set(variable.name, {
+              name: variable.name,
+              locations: [],
+              missingIn: [],
+            })
+          }
+          newVariablesMap.get(variable.name)!.locations.push({
+            repository: repo,
+            environment: env,
+            value: variable.value,
+          })
+        })
+      }
+
+      for (const { location, secrets } of outer) {
+        secrets.forEach((secret) => {
+          if (!newSecretsMap.has(secret.name)) {
+            newSecretsMap.set(secret.name, {
+              name: secret.name,
+              locations: [],
+              missingIn: [],
+            })
+          }
+          newSecretsMap.get(secret.name)!.locations.push({ ...location, updatedAt: secret.updated_at })
+        })
+      }
+
+      const failedCount = failed.secret.length + failed.variable.length + outerFailures
+      if (failedCount > 0) {
+        toast({
+          title: "Incomplete Results",
+          description: `${failedCount} requests failed after retries; those locations are not counted as missing`,
+          variant: "destructive",
+        })
       }
 
       // Calculate missing locations
-      const allLocations = repositories.flatMap((repo) =>
-        COMMON_ENVIRONMENTS.map((env) => ({ repository: repo.name, environment: env })),
-      )
+      const allLocations = existing.map(({ repo, env }) => ({ repository: repo, environment: env }))
+
+      const locationKey = (loc: RotationLocation) => `${loc.repository}:${loc.environment}`
+      const missingFrom = (kind: BulkItemKind, present: RotationLocation[]) => {
+        const known = new Set([...present, ...failed[kind]].map(locationKey))
+        return allLocations.filter((loc) => !known.has(locationKey(loc)))
+      }
 
       newSecretsMap.forEach((secret) => {
-        const existingLocations = new Set(secret.locations.map((loc) => `${loc.repository}:${loc.environment}`))
-        secret.missingIn = allLocations.filter((loc) => !existingLocations.has(`${loc.repository}:${loc.environment}`))
+        // A secret that only exists at repository or organization level is not missing from environments
+        secret.missingIn = secret.locations.some((loc) => loc.environment)
+          ? missingFrom("secret", secret.locations)
+          : []
       })
 
       newVariablesMap.forEach((variable) => {
-        const existingLocations = new Set(variable.locations.map((loc) => `${loc.repository}:${loc.environment}`))
-        variable.missingIn = allLocations.filter(
-          (loc) => !existingLocations.has(`${loc.repository}:${loc.environment}`),
-        )
+        variable.missingIn = missingFrom("variable", variable.locations)
       })
 
       setSecretsMap(newSecretsMap)
       setVariablesMap(newVariablesMap)
+      setScannedLocations(allLocations)
+      setFailedLocations(failed)
     } catch (error) {
       console.error("Error fetching secrets and variables:", error)
       toast({
@@ -170,8 +266,34 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
     }
   }
 
-  const secretsList = Array.from(secretsMap.values()).sort((a, b) => a.name.localeCompare(b.name))
-  const variablesList = Array.from(variablesMap.values()).sort((a, b) => a.name.localeCompare(b.name))
+  const inFilter = (loc: RotationLocation) => environmentFilter === "all" || loc.environment === environmentFilter
+  // Narrows every item to the filtered environment and drops the ones not defined there
+  const applyFilter = <T extends { name: string; locations: RotationLocation[]; missingIn: ScannedLocation[] }>(
+    items: Iterable<T>,
+  ): T[] =>
+    Array.from(items)
+      .map((item) => ({
+        ...item,
+        locations: item.locations.filter(inFilter),
+        missingIn: item.missingIn.filter(inFilter),
+      }))
+      .filter((item) => item.locations.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+  const secretsList = applyFilter(secretsMap.values())
+  // The consistency report compares environments only
+  const environmentSecrets = secretsList.map((secret) => ({
+    ...secret,
+    locations: secret.locations.filter(
+      (loc): loc is ScannedLocation & { updatedAt: string } => !!loc.repository && !!loc.environment,
+    ),
+  }))
+  const variablesList = applyFilter(variablesMap.values())
+  const environmentOptions = environmentNames(environments)
+  const scannedCount = Object.values(environments).reduce((sum, envs) => sum + envs.length, 0)
+  const dueCount = (secret: SecretLocation) =>
+    secret.locations.filter((loc) => isRotationDue(loc.updatedAt, maxAgeDays)).length
+  const totalDue = secretsList.filter((secret) => dueCount(secret) > 0).length
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -182,8 +304,7 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
             Global Secrets & Variables Overview
           </DialogTitle>
           <DialogDescription>
-            View all secrets and variables across {repositories.length} repositories and {COMMON_ENVIRONMENTS.length}{" "}
-            environments
+            View all secrets and variables across {repositories.length} repositories and {scannedCount} environments
           </DialogDescription>
         </DialogHeader>
 
@@ -194,12 +315,51 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
           </div>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2">
+            <div className="flex items-center gap-2 mb-4">
+              <Label className="text-xs whitespace-nowrap">Environment</Label>
+              <Select value={environmentFilter} onValueChange={setEnvironmentFilter}>
+                <SelectTrigger className="w-56 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All environments</SelectItem>
+                  {environmentOptions.map((env) => (
+                    <SelectItem key={env} value={env}>
+                      {env}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="secrets">Secrets ({secretsList.length})</TabsTrigger>
               <TabsTrigger value="variables">Variables ({variablesList.length})</TabsTrigger>
+              <TabsTrigger value="consistency">Consistency</TabsTrigger>
+              <TabsTrigger value="rotation">Rotation History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="secrets" className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="rotation-max-age" className="text-xs whitespace-nowrap">
+                    Flag secrets older than
+                  </Label>
+                  <Input
+                    id="rotation-max-age"
+                    type="number"
+                    min={1}
+                    value={maxAgeDays}
+                    onChange={(e) => updateMaxAgeDays(e.target.value)}
+                    className="h-8 w-20 text-sm"
+                  />
+                  <span className="text-xs text-muted-foreground">days</span>
+                </div>
+                {totalDue > 0 && (
+                  <Badge variant="destructive" className="text-xs">
+                    {totalDue} due for rotation
+                  </Badge>
+                )}
+              </div>
               {secretsList.length === 0 ? (
                 <Card>
                   <CardContent className="py-12">
@@ -225,6 +385,19 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
                                 {secret.missingIn.length} missing
                               </Badge>
                             )}
+                            {dueCount(secret) > 0 && (
+                              <Badge variant="destructive" className="text-xs">
+                                {dueCount(secret)} due for rotation
+                              </Badge>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-xs h-6 bg-transparent"
+                              onClick={() => setRotatingSecret(secret)}
+                            >
+                              Rotate
+                            </Button>
                           </div>
                         </div>
                       </CardHeader>
@@ -234,8 +407,13 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
                           <p className="text-xs font-medium text-muted-foreground mb-2">Defined in:</p>
                           <div className="flex flex-wrap gap-1">
                             {secret.locations.map((loc, idx) => (
-                              <Badge key={idx} variant="outline" className="text-xs">
-                                {loc.repository} / {loc.environment}
+                              <Badge
+                                key={idx}
+                                variant={isRotationDue(loc.updatedAt, maxAgeDays) ? "destructive" : "outline"}
+                                className="text-xs"
+                                title={`Updated ${secretAgeDays(loc.updatedAt)} days ago`}
+                              >
+                                {describeRotationLocation(loc)}
                               </Badge>
                             ))}
                           </div>
@@ -331,8 +509,80 @@ export function GlobalSecretsList({ isOpen, onClose, organization, repositories,
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="consistency" className="space-y-4">
+              <ConsistencyReport
+                organization={organization}
+                token={token}
+                columns={scannedLocations.filter(inFilter)}
+                failed={failedLocations}
+                secrets={environmentSecrets}
+                variables={variablesList}
+                onFilled={fetchAllSecretsAndVariables}
+              />
+            </TabsContent>
+
+            <TabsContent value="rotation" className="space-y-4">
+              {rotationHistory.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12">
+                    <p className="text-sm text-muted-foreground text-center">No rotations recorded in this browser</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="space-y-3">
+                  {rotationHistory.map((record) => (
+                    <Card key={`${record.secretName}-${record.rotatedAt}`}>
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-base font-mono">{record.secretName}</CardTitle>
+                            <CardDescription className="text-xs">
+                              {new Date(record.rotatedAt).toLocaleString()}
+                            </CardDescription>
+                          </div>
+                          <Badge variant="secondary" className="text-xs">
+                            {record.locations.filter((loc) => loc.success).length}/{record.locations.length} locations
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex flex-wrap gap-1">
+                          {record.locations.map((loc, idx) => (
+                            <Badge
+                              key={idx}
+                              variant={loc.success ? "outline" : "destructive"}
+                              className="text-xs"
+                              title={loc.error}
+                            >
+                              {describeRotationLocation(loc)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         )}
+
+        {rotatingSecret && (
+          <RotateSecretDialog
+            isOpen={!!rotatingSecret}
+            onClose={() => setRotatingSecret(null)}
+            organization={organization}
+            token={token}
+            secretName={rotatingSecret.name}
+            locations={rotatingSecret.locations}
+            maxAgeDays={maxAgeDays}
+            onRotated={() => {
+              setRotationHistory(getRotationHistory(organization))
+              fetchAllSecretsAndVariables()
+            }}
+          />
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { ListIcon } from "@/components/icons"
+import { JobProgress, JobStatusBadge } from "@/components/job-progress"
+import { useJobs } from "@/hooks/use-jobs"
+import { clearFinishedJobs, countTasks } from "@/lib/job-engine"
+
+interface JobHistoryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function JobHistoryDialog({ isOpen, onClose }: JobHistoryDialogProps) {
+  const jobs = useJobs()
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const newestFirst = [...jobs].reverse()
+  const hasFinished = jobs.some((job) => job.status === "completed" || job.status === "cancelled")
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListIcon className="h-5 w-5" />
+            Jobs
+          </DialogTitle>
+          <DialogDescription>
+            Bulk jobs from this session. Jobs keep running when their dialog is closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No jobs yet</p>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-xs h-7 bg-transparent"
+                  onClick={() => {
+                    clearFinishedJobs()
+                    setSelectedJobId(null)
+                  }}
+                  disabled={!hasFinished}
+                >
+                  Clear Finished
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {newestFirst.map((job) => {
+                  const counts = countTasks(job)
+                  return (
+                    <button
+                      key={job.id}
+                      type="button"
+                      onClick={() => setSelectedJobId(selectedJobId === job.id ? null : job.id)}
+                      className={`w-full flex items-center justify-between p-3 border rounded-lg text-left hover:bg-accent/50 ${
+                        selectedJobId === job.id ? "bg-accent/50" : ""
+                      }`}
+                    >
+                      <div>
+                        <p className="text-sm font-medium">{job.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(job.createdAt).toLocaleTimeString()} · {counts.succeeded}/{counts.total} successful
+                          {counts.failed > 0 && `, ${counts.failed} failed`}
+                        </p>
+                      </div>
+                      <JobStatusBadge status={job.status} />
+                    </button>
+                  )
+                })}
+              </div>
+              {selectedJobId && <JobProgress jobId={selectedJobId} />}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useJob } from "@/hooks/use-jobs"
+import {
+  cancelJob,
+  countTasks,
+  pauseJob,
+  resumeJob,
+  retryFailed,
+  type JobStatus,
+  type TaskState,
+} from "@/lib/job-engine"
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  running: "Running",
+  paused: "Paused",
+  completed: "Completed",
+  cancelled: "Cancelled",
+}
+
+export function JobStatusBadge({ status }: { status: JobStatus }) {
+  return (
+    <Badge variant={status === "running" ? "default" : status === "cancelled" ? "destructive" : "secondary"}>
+      {JOB_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+function TaskBadge({ task }: { task: TaskState }) {
+  if (task.status === "succeeded") {
+    return (
+      <Badge variant={task.outcome === "skipped" ? "outline" : "default"} className="text-xs capitalize">
+        {task.outcome || "Success"}
+      </Badge>
+    )
+  }
+  if (task.status === "failed") {
+    return (
+      <Badge variant="destructive" className="text-xs">
+        Failed
+      </Badge>
+    )
+  }
+  return (
+    <Badge variant="outline" className="text-xs capitalize">
+      {task.status}
+    </Badge>
+  )
+}
+
+// Progress, controls and per-task results of one job from the job engine
+export function JobProgress({ jobId }: { jobId: string }) {
+  const job = useJob(jobId)
+  if (!job) {
+    return null
+  }
+
+  const counts = countTasks(job)
+  const isActive = job.status === "running" || job.status === "paused"
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-sm flex items-center gap-2">
+              {job.title}
+              <JobStatusBadge status={job.status} />
+            </CardTitle>
+            <CardDescription>
+              {counts.succeeded} successful, {counts.failed} failed
+              {counts.cancelled > 0 && `, ${counts.cancelled} cancelled`} of {counts.total}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {job.status === "running" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs h-7 bg-transparent"
+                onClick={() => pauseJob(job.id)}
+              >
+                Pause
+              </Button>
+            )}
+            {job.status === "paused" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs h-7 bg-transparent"
+                onClick={() => resumeJob(job.id)}
+              >
+                Resume
+              </Button>
+            )}
+            {isActive && (
+              <Button size="sm" variant="destructive" className="text-xs h-7" onClick={() => cancelJob(job.id)}>
+                Cancel
+              </Button>
+            )}
+            {!isActive && counts.failed + counts.cancelled > 0 && (
+              <Button size="sm" className="text-xs h-7" onClick={() => retryFailed(job.id)}>
+                Retry {counts.failed + counts.cancelled} Failed
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isActive && (
+          <div className="space-y-2">
+            <Progress value={(counts.done / Math.max(1, counts.total)) * 100} className="w-full" />
+            <p className="text-xs text-muted-foreground text-center">
+              {counts.done} of {counts.total} done
+            </p>
+          </div>
+        )}
+        <ScrollArea className="h-48">
+          <div className="space-y-2">
+            {job.tasks.map((task, index) => (
+              <div key={index} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                <div className="flex items-center gap-2">
+                  <TaskBadge task={task} />
+                  <span className="font-mono text-xs">{task.label}</span>
+                </div>
+                {task.error && <span className="text-xs text-muted-foreground">{task.error}</span>}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,291 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { AlertCircleIcon, ListIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { describeError } from "@/lib/github-client"
+import { countTasks, startJob } from "@/lib/job-engine"
+import {
+  applyPlanTasks,
+  computePlan,
+  fetchLiveState,
+  parseManifest,
+  type LiveTarget,
+  type PlanAction,
+  type PlanChange,
+} from "@/lib/manifest"
+import { PlanChangeLine } from "@/components/plan-change-line"
+
+interface ManifestDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  token: string
+  onEnvironmentCreated?: () => void
+}
+
+const EXAMPLE_MANIFEST = `repositories:
+  my-repo:
+    variables:
+      LOG_LEVEL: info
+    environments:
+      production:
+        variables:
+          API_URL: https://api.example.com
+        secrets:
+          - DB_PASSWORD
+`
+
+export function ManifestDialog({ isOpen, onClose, organization, token, onEnvironmentCreated }: ManifestDialogProps) {
+  const client = useGitHubClient(token)
+  const [manifestText, setManifestText] = useState("")
+  const [prune, setPrune] = useState(false)
+  const [plan, setPlan] = useState<PlanChange[] | null>(null)
+  // Targets whose current state could not be read, so the plan leaves them out
+  const [unreadable, setUnreadable] = useState<LiveTarget[]>([])
+  const [parseError, setParseError] = useState("")
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [secretValues, setSecretValues] = useState<Record<string, string>>({})
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isApplying = job?.status === "running" || job?.status === "paused"
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setManifestText(await file.text())
+      setPlan(null)
+    }
+    e.target.value = ""
+  }
+
+  const createPlan = async () => {
+    setParseError("")
+    setPlan(null)
+    setUnreadable([])
+    setJobId(null)
+
+    let targets
+    try {
+      targets = parseManifest(manifestText)
+    } catch (error) {
+      setParseError(describeError(error))
+      return
+    }
+
+    setIsPlanning(true)
+    try {
+      const live = await fetchLiveState(client, organization, targets)
+      setUnreadable(live.filter((target) => target.error))
+      setPlan(computePlan(targets, live, prune))
+    } catch (error) {
+      console.error("Error reading live state:", error)
+      toast({
+        title: "Error",
+        description: `Failed to read current state: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const runApply = () => {
+    if (!plan || plan.length === 0) return
+
+    const createsEnvironments = plan.some((change) => change.kind === "environment")
+    const id = startJob("Apply manifest", applyPlanTasks(client, organization, plan, secretValues), {
+      onSettled: (finished) => {
+        const counts = countTasks(finished)
+        // Deletions of values that no longer existed
+        const skipped = finished.tasks.filter((task) => task.outcome === "skipped").length
+        if (createsEnvironments) {
+          onEnvironmentCreated?.()
+        }
+        toast({
+          title: counts.failed > 0 ? "Manifest Partially Applied" : "Manifest Applied",
+          description: `${counts.succeeded - skipped}/${counts.total} changes applied${skipped > 0 ? `, ${skipped} already gone` : ""}`,
+          variant: counts.failed > 0 ? "destructive" : "default",
+        })
+      },
+    })
+    setJobId(id)
+    setPlan(null)
+  }
+
+  const secretsNeedingValues = Array.from(
+    new Set((plan || []).filter((c) => c.kind === "secret" && c.action === "create").map((c) => c.name)),
+  ).sort()
+  const missingSecretValues = secretsNeedingValues.filter((name) => !secretValues[name])
+  const counts = (plan || []).reduce((acc, change) => ({ ...acc, [change.action]: acc[change.action] + 1 }), {
+    create: 0,
+    update: 0,
+    delete: 0,
+  } as Record<PlanAction, number>)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListIcon className="h-5 w-5" />
+            Secrets Manifest
+          </DialogTitle>
+          <DialogDescription>
+            Describe the desired secrets and variables in YAML or JSON, review the plan, then apply it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-sm">Manifest</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs h-7 bg-transparent"
+                    onClick={() => setManifestText(EXAMPLE_MANIFEST)}
+                    disabled={isApplying}
+                  >
+                    Example
+                  </Button>
+                  <Input
+                    type="file"
+                    accept=".yml,.yaml,.json"
+                    onChange={handleFileUpload}
+                    className="h-7 w-52 text-xs"
+                    disabled={isApplying}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={manifestText}
+                onChange={(e) => {
+                  setManifestText(e.target.value)
+                  setPlan(null)
+                }}
+                placeholder={EXAMPLE_MANIFEST}
+                className="font-mono text-xs min-h-[200px]"
+                disabled={isApplying}
+              />
+              {parseError && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircleIcon className="h-3 w-3" />
+                  {parseError}
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="manifest-prune"
+                    checked={prune}
+                    onCheckedChange={(checked) => {
+                      setPrune(checked)
+                      setPlan(null)
+                    }}
+                    disabled={isApplying}
+                  />
+                  <Label htmlFor="manifest-prune" className="text-xs">
+                    Delete secrets and variables not in the manifest
+                  </Label>
+                </div>
+                <Button onClick={createPlan} disabled={!manifestText.trim() || isPlanning || isApplying}>
+                  {isPlanning ? "Planning..." : "Plan"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {plan && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Plan</CardTitle>
+                <CardDescription>
+                  {plan.length === 0
+                    ? "No changes. Live state matches the manifest."
+                    : `${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete`}
+                </CardDescription>
+                {unreadable.length > 0 && (
+                  <div className="text-xs text-destructive space-y-1">
+                    <p className="flex items-center gap-1">
+                      <AlertCircleIcon className="h-3 w-3" />
+                      {unreadable.length} targets could not be read and are left out of the plan
+                    </p>
+                    {unreadable.map((target) => (
+                      <p key={`${target.repo}/${target.environment ?? ""}`} className="font-mono pl-4">
+                        {target.environment ? `${target.repo}/${target.environment}` : `${target.repo} (repository)`}:{" "}
+                        {target.error}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </CardHeader>
+              {plan.length > 0 && (
+                <CardContent className="space-y-4">
+                  <ScrollArea className="h-64 border rounded-md p-3">
+                    <div className="space-y-1 font-mono text-xs">
+                      {plan.map((change, index) => (
+                        <PlanChangeLine key={index} change={change} />
+                      ))}
+                    </div>
+                  </ScrollArea>
+
+                  {secretsNeedingValues.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-xs font-medium">Values for new secrets</Label>
+                      {secretsNeedingValues.map((name) => (
+                        <div key={name} className="grid grid-cols-[200px_1fr] gap-2 items-center">
+                          <span className="font-mono text-xs truncate">{name}</span>
+                          <Input
+                            type="password"
+                            placeholder="Enter secret value"
+                            value={secretValues[name] || ""}
+                            onChange={(e) => setSecretValues({ ...secretValues, [name]: e.target.value })}
+                            className="font-mono text-xs h-8"
+                            disabled={isApplying}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button
+                    onClick={runApply}
+                    disabled={isApplying || missingSecretValues.length > 0}
+                    variant={counts.delete > 0 ? "destructive" : "default"}
+                    className="w-full"
+                  >
+                    {isApplying
+                      ? "Applying..."
+                      : missingSecretValues.length > 0
+                        ? `Enter values for ${missingSecretValues.length} secrets`
+                        : `Apply ${plan.length} Changes`}
+                  </Button>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          {jobId && <JobProgress jobId={jobId} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,637 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToastAction } from "@/components/ui/toast"
+import { BuildingIcon, EditIcon, KeyIcon, ListIcon, PlusIcon, SettingsIcon, TrashIcon } from "@/components/icons"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { UndoHistoryDialog } from "@/components/undo-history-dialog"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { describeError, type OrganizationItemKind } from "@/lib/github-client"
+import {
+  organizationScope,
+  type Repository,
+  type Secret,
+  type Variable,
+  type Visibility,
+  type VisibilitySettings,
+} from "@/lib/github-types"
+import {
+  recordUndo,
+  restoreUndoEntry,
+  snapshotSecretDeletion,
+  snapshotVariable,
+  UNDO_TOAST_DURATION_MS,
+  type UndoEntry,
+} from "@/lib/undo-history"
+
+interface OrganizationSecretsManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  token: string
+  repositories: Repository[]
+}
+
+// Shared by the create form and the inline editor
+interface ItemDraft {
+  name: string
+  value: string
+  visibility: Visibility
+  repositoryIds: number[]
+}
+
+const EMPTY_DRAFT: ItemDraft = { name: "", value: "", visibility: "private", repositoryIds: [] }
+
+const VISIBILITY_LABELS: Record<Visibility, string> = {
+  all: "All repositories",
+  private: "Private repositories",
+  selected: "Selected repositories",
+}
+
+function toSettings(draft: ItemDraft): VisibilitySettings {
+  return draft.visibility === "selected"
+    ? { visibility: "selected", selected_repository_ids: draft.repositoryIds }
+    : { visibility: draft.visibility }
+}
+
+interface VisibilityFieldsProps {
+  idPrefix: string
+  draft: ItemDraft
+  onChange: (draft: ItemDraft) => void
+  repositories: Repository[]
+  disabled?: boolean
+}
+
+function VisibilityFields({ idPrefix, draft, onChange, repositories, disabled }: VisibilityFieldsProps) {
+  const toggleRepository = (id: number, checked: boolean) => {
+    onChange({
+      ...draft,
+      repositoryIds: checked ? [...draft.repositoryIds, id] : draft.repositoryIds.filter((r) => r !== id),
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Repository access</Label>
+      <Select
+        value={draft.visibility}
+        onValueChange={(value) => onChange({ ...draft, visibility: value as Visibility })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-9 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(VISIBILITY_LABELS) as Visibility[]).map((visibility) => (
+            <SelectItem key={visibility} value={visibility}>
+              {VISIBILITY_LABELS[visibility]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {draft.visibility === "selected" && (
+        <>
+          <Label className="text-xs text-muted-foreground">Repositories ({draft.repositoryIds.length} selected)</Label>
+          <ScrollArea className="h-32 border rounded-md p-2">
+            <div className="space-y-1">
+              {repositories.map((repo) => (
+                <div key={repo.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`${idPrefix}-repo-${repo.id}`}
+                    checked={draft.repositoryIds.includes(repo.id)}
+                    onCheckedChange={(checked) => toggleRepository(repo.id, checked as boolean)}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor={`${idPrefix}-repo-${repo.id}`} className="text-xs">
+                    {repo.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </>
+      )}
+    </div>
+  )
+}
+
+export function OrganizationSecretsManager({
+  isOpen,
+  onClose,
+  organization,
+  token,
+  repositories,
+}: OrganizationSecretsManagerProps) {
+  const client = useGitHubClient(token)
+  const [secrets, setSecrets] = useState<Secret[]>([])
+  const [variables, setVariables] = useState<Variable[]>([])
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [activeTab, setActiveTab] = useState<OrganizationItemKind>("secrets")
+
+  const [createDraft, setCreateDraft] = useState<ItemDraft>(EMPTY_DRAFT)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isDeleting, setIsDeleting] = useState<string>("")
+
+  const [editingName, setEditingName] = useState<string>("")
+  const [editDraft, setEditDraft] = useState<ItemDraft>(EMPTY_DRAFT)
+  const [isSaving, setIsSaving] = useState(false)
+  // Loading the current repository selection of the item being edited. Saving "selected"
+  // access before it has loaded would replace the selection with an empty list.
+  const [selectionStatus, setSelectionStatus] = useState<"loading" | "loaded" | "failed">("loaded")
+
+  const scope = organizationScope(organization)
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSecrets()
+      fetchVariables()
+    }
+  }, [isOpen, organization])
+
+  const fetchSecrets = async () => {
+    setLoading(true)
+    try {
+      await client.listSecrets(scope, (_page, loaded) => {
+        setSecrets(loaded)
+        setLoading(false)
+      })
+    } catch (error) {
+      console.error("Error fetching organization secrets:", error)
+      toast({
+        title: "Error",
+        description: `Failed to fetch organization secrets: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchVariables = async () => {
+    try {
+      await client.listVariables(scope, (_page, loaded) => setVariables(loaded))
+    } catch (error) {
+      console.error("Error fetching organization variables:", error)
+    }
+  }
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab as OrganizationItemKind)
+    setCreateDraft(EMPTY_DRAFT)
+    setEditingName("")
+  }
+
+  const createItem = async () => {
+    if (!createDraft.name.trim() || !createDraft.value.trim()) return
+
+    setIsCreating(true)
+    try {
+      if (activeTab === "secrets") {
+        await client.setSecret(scope, createDraft.name, createDraft.value, toSettings(createDraft))
+        fetchSecrets()
+      } else {
+        await client.createVariable(scope, createDraft.name, createDraft.value, toSettings(createDraft))
+        fetchVariables()
+      }
+      toast({
+        title: activeTab === "secrets" ? "Secret Created" : "Variable Created",
+        description: `Successfully created ${createDraft.name} for ${organization}`,
+      })
+      setCreateDraft(EMPTY_DRAFT)
+    } catch (error) {
+      console.error("Error creating organization item:", error)
+      toast({
+        title: "Error",
+        description: `Failed to create ${createDraft.name}: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const startEditing = async (item: Secret | Variable) => {
+    const draft: ItemDraft = {
+      name: item.name,
+      value: "value" in item ? item.value : "",
+      visibility: item.visibility || "private",
+      repositoryIds: [],
+    }
+    setEditingName(item.name)
+    setEditDraft(draft)
+    setSelectionStatus(draft.visibility === "selected" ? "loading" : "loaded")
+
+    if (draft.visibility === "selected") {
+      try {
+        const selected = await client.listSelectedRepositories(organization, activeTab, item.name)
+        setEditDraft((current) =>
+          current.name === item.name ? { ...current, repositoryIds: selected.map((repo) => repo.id) } : current,
+        )
+        setSelectionStatus("loaded")
+      } catch (error) {
+        console.error("Error fetching selected repositories:", error)
+        setSelectionStatus("failed")
+        toast({
+          title: "Error",
+          description: `Failed to load selected repositories: ${describeError(error)}`,
+          variant: "destructive",
+        })
+      }
+    }
+  }
+
+  // Secrets can only be recreated with a new value, which the history dialog asks for
+  const undoChange = async (entry: UndoEntry) => {
+    if (entry.kind === "secret") {
+      setIsHistoryOpen(true)
+      return
+    }
+    try {
+      await restoreUndoEntry(client, entry)
+      toast({
+        title: "Change Undone",
+        description: `Restored the previous value of ${entry.name}`,
+      })
+      fetchVariables()
+    } catch (error) {
+      console.error("Error undoing change:", error)
+      toast({
+        title: "Error",
+        description: `Failed to undo change: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Without a snapshot there is nothing to undo, so the toast has no action
+  const toastWithUndo = (title: string, description: string, entry: UndoEntry | null) =>
+    toast({
+      title,
+      description,
+      ...(entry && {
+        duration: UNDO_TOAST_DURATION_MS,
+        action: (
+          <ToastAction altText={`Undo the change to ${entry.name}`} onClick={() => undoChange(entry)}>
+            Undo
+          </ToastAction>
+        ),
+      }),
+    })
+
+  const saveEdit = async () => {
+    if (editDraft.visibility === "selected" && selectionStatus !== "loaded") {
+      return
+    }
+    setIsSaving(true)
+    try {
+      const settings = toSettings(editDraft)
+      let entry: UndoEntry | null = null
+      if (activeTab === "secrets") {
+        // Leaving the value empty keeps the current one and only updates access
+        if (editDraft.value) {
+          await client.setSecret(scope, editDraft.name, editDraft.value, settings)
+        } else {
+          await client.setOrganizationSecretVisibility(organization, editDraft.name, settings)
+        }
+        fetchSecrets()
+      } else {
+        const current = variables.find((variable) => variable.name === editDraft.name)
+        const snapshot = current && (await snapshotVariable(client, scope, current, "update"))
+        await client.updateVariable(scope, editDraft.name, editDraft.value, settings)
+        entry = snapshot ? recordUndo(snapshot) : null
+        fetchVariables()
+      }
+      toastWithUndo(
+        activeTab === "secrets" ? "Secret Updated" : "Variable Updated",
+        `Successfully updated ${editDraft.name}`,
+        entry,
+      )
+      setEditingName("")
+    } catch (error) {
+      console.error("Error updating organization item:", error)
+      toast({
+        title: "Error",
+        description: `Failed to update ${editDraft.name}: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteItem = async (name: string) => {
+    setIsDeleting(name)
+    try {
+      let entry: UndoEntry | null
+      if (activeTab === "secrets") {
+        const current = secrets.find((secret) => secret.name === name)
+        const snapshot = current && (await snapshotSecretDeletion(client, scope, current))
+        await client.deleteSecret(scope, name)
+        entry = snapshot ? recordUndo(snapshot) : null
+        fetchSecrets()
+      } else {
+        const current = variables.find((variable) => variable.name === name)
+        const snapshot = current && (await snapshotVariable(client, scope, current, "delete"))
+        await client.deleteVariable(scope, name)
+        entry = snapshot ? recordUndo(snapshot) : null
+        fetchVariables()
+      }
+      toastWithUndo(
+        activeTab === "secrets" ? "Secret Deleted" : "Variable Deleted",
+        `Successfully deleted ${name}`,
+        entry,
+      )
+    } catch (error) {
+      console.error("Error deleting organization item:", error)
+      toast({
+        title: "Error",
+        description: `Failed to delete ${name}: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsDeleting("")
+    }
+  }
+
+  const renderCreateForm = () => {
+    const isSecret = activeTab === "secrets"
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm flex items-center gap-2">
+            <PlusIcon className="h-4 w-4" />
+            {isSecret ? "Create Organization Secret" : "Create Organization Variable"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`org-${activeTab}-name`} className="text-xs">
+                Name
+              </Label>
+              <Input
+                id={`org-${activeTab}-name`}
+                placeholder={isSecret ? "SECRET_NAME" : "VARIABLE_NAME"}
+                value={createDraft.name}
+                onChange={(e) => setCreateDraft({ ...createDraft, name: e.target.value.toUpperCase() })}
+                className="font-mono text-sm"
+                disabled={isCreating}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`org-${activeTab}-value`} className="text-xs">
+                Value
+              </Label>
+              <Input
+                id={`org-${activeTab}-value`}
+                type={isSecret ? "password" : "text"}
+                placeholder={isSecret ? "Enter secret value" : "Enter variable value"}
+                value={createDraft.value}
+                onChange={(e) => setCreateDraft({ ...createDraft, value: e.target.value })}
+                className="font-mono text-sm"
+                disabled={isCreating}
+              />
+            </div>
+          </div>
+          <VisibilityFields
+            idPrefix={`org-create-${activeTab}`}
+            draft={createDraft}
+            onChange={setCreateDraft}
+            repositories={repositories}
+            disabled={isCreating}
+          />
+          <Button
+            onClick={createItem}
+            disabled={!createDraft.name || !createDraft.value || isCreating}
+            className="w-full"
+          >
+            {isCreating ? "Creating..." : isSecret ? "Create Secret" : "Create Variable"}
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderItems = (items: Array<Secret | Variable>) => {
+    const isSecret = activeTab === "secrets"
+
+    if (loading && isSecret) {
+      return (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+        </div>
+      )
+    }
+    if (items.length === 0) {
+      return (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          {isSecret ? "No secrets found" : "No variables found"}
+        </p>
+      )
+    }
+
+    return (
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.name} className="p-3 border rounded-lg hover:bg-accent/50 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-mono text-sm font-medium">{item.name}</p>
+                  {item.visibility && (
+                    <Badge variant="secondary" className="text-xs">
+                      {VISIBILITY_LABELS[item.visibility]}
+                    </Badge>
+                  )}
+                </div>
+                {"value" in item && <p className="font-mono text-xs text-muted-foreground truncate">{item.value}</p>}
+                <p className="text-xs text-muted-foreground">
+                  Updated {new Date(item.updated_at).toLocaleDateString()}
+                </p>
+              </div>
+              {editingName !== item.name && (
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => startEditing(item)} className="h-8 w-8 p-0">
+                    <EditIcon className="h-3 w-3" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        disabled={isDeleting === item.name}
+                      >
+                        {isDeleting === item.name ? (
+                          <div className="animate-spin rounded-full h-3 w-3 border-b border-current"></div>
+                        ) : (
+                          <TrashIcon className="h-3 w-3" />
+                        )}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>{isSecret ? "Delete Secret" : "Delete Variable"}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{item.name}" from {organization}? Every repository using it
+                          will lose access.{" "}
+                          {isSecret
+                            ? "It can be recreated from History with the same access, but GitHub never returns secret values, so the value has to be entered again."
+                            : "It can be restored from History with the same value and access."}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteItem(item.name)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+            </div>
+
+            {editingName === item.name && (
+              <div className="space-y-3 border-t pt-3">
+                <div className="space-y-2">
+                  <Label className="text-xs">Value</Label>
+                  <Input
+                    type={isSecret ? "password" : "text"}
+                    placeholder={isSecret ? "Leave empty to keep the current value" : "New value"}
+                    value={editDraft.value}
+                    onChange={(e) => setEditDraft({ ...editDraft, value: e.target.value })}
+                    className="font-mono text-xs"
+                    disabled={isSaving}
+                  />
+                </div>
+                <VisibilityFields
+                  idPrefix={`org-edit-${activeTab}`}
+                  draft={editDraft}
+                  onChange={setEditDraft}
+                  repositories={repositories}
+                  disabled={isSaving || selectionStatus === "loading"}
+                />
+                {editDraft.visibility === "selected" && selectionStatus === "loading" && (
+                  <p className="text-xs text-muted-foreground">
+                    Loading the repositories that currently have access...
+                  </p>
+                )}
+                {editDraft.visibility === "selected" && selectionStatus === "failed" && (
+                  <p className="text-xs text-destructive">
+                    The current repository selection could not be loaded, so it cannot be saved. Cancel and edit again
+                    to retry, or switch to another access level.
+                  </p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setEditingName("")} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={saveEdit}
+                    disabled={
+                      isSaving ||
+                      (!isSecret && !editDraft.value) ||
+                      (editDraft.visibility === "selected" && selectionStatus !== "loaded")
+                    }
+                  >
+                    {isSaving ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BuildingIcon className="h-5 w-5" />
+            Organization Secrets & Variables
+          </DialogTitle>
+          <DialogDescription>
+            Manage Actions secrets and variables shared across <Badge variant="outline">{organization}</Badge>
+          </DialogDescription>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2 bg-transparent" onClick={() => setIsHistoryOpen(true)}>
+              <ListIcon className="h-3 w-3" />
+              History
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={handleTabChange}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="secrets">Secrets ({secrets.length})</TabsTrigger>
+            <TabsTrigger value="variables">Variables ({variables.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="secrets" className="space-y-4">
+            {renderCreateForm()}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <KeyIcon className="h-4 w-4" />
+                  Existing Secrets ({secrets.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>{renderItems(secrets)}</CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="variables" className="space-y-4">
+            {renderCreateForm()}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <SettingsIcon className="h-4 w-4" />
+                  Existing Variables ({variables.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>{renderItems(variables)}</CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <UndoHistoryDialog
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          organization={organization}
+          token={token}
+          onRestored={(entry) => (entry.kind === "secret" ? fetchSecrets() : fetchVariables())}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
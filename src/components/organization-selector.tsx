@@ -4,13 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { BuildingIcon } from "@/components/icons"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-
-interface Organization {
-  id: number
-  login: string
-  avatar_url: string
-  description?: string
-}
+import type { Organization } from "@/lib/github-types"
 
 interface OrganizationSelectorProps {
   organizations: Organization[]
@@ -0,0 +1,28 @@
+import { describeLocation, type PlanAction, type PlanChange } from "@/lib/manifest"
+
+const ACTION_SYMBOLS: Record<PlanAction, string> = { create: "+", update: "~", delete: "-" }
+
+const ACTION_CLASSES: Record<PlanAction, string> = {
+  create: "text-green-500",
+  update: "text-yellow-500",
+  delete: "text-destructive",
+}
+
+// One Terraform-style plan line: "+ variable NAME in repo/env = value"
+export function PlanChangeLine({ change, showLocation = true }: { change: PlanChange; showLocation?: boolean }) {
+  return (
+    <div className={ACTION_CLASSES[change.action]}>
+      {ACTION_SYMBOLS[change.action]} {change.kind} {change.name}
+      {showLocation && <span className="text-muted-foreground"> in {describeLocation(change)}</span>}
+      {change.kind === "variable" && change.action === "update" && (
+        <span className="text-muted-foreground">
+          {" "}
+          ({JSON.stringify(change.previousValue)} → {JSON.stringify(change.value)})
+        </span>
+      )}
+      {change.kind === "variable" && change.action === "create" && (
+        <span className="text-muted-foreground"> = {JSON.stringify(change.value)}</span>
+      )}
+    </div>
+  )
+}
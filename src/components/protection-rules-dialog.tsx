@@ -0,0 +1,484 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PlusIcon, SettingsIcon, TrashIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { describeError } from "@/lib/github-client"
+import type { ReviewerType } from "@/lib/github-types"
+import {
+  applyProtection,
+  EMPTY_PROTECTION,
+  MAX_REVIEWERS,
+  MAX_WAIT_TIMER,
+  fetchProtection,
+  type BranchPolicyMode,
+  type PatternType,
+  type ProtectionDraft,
+} from "@/lib/environment-protection"
+import { countTasks, startJob } from "@/lib/job-engine"
+
+interface Repository {
+  name: string
+  full_name: string
+}
+
+interface ProtectionRulesDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  token: string
+  repositories: Repository[]
+  // Edit a single existing environment; without it the dialog applies rules in bulk
+  target?: { repo: string; env: string } | null
+  onSaved?: () => void
+}
+
+const BRANCH_POLICY_LABELS: Record<BranchPolicyMode, string> = {
+  all: "All branches",
+  protected: "Protected branches only",
+  custom: "Selected branches and tags",
+}
+
+export function ProtectionRulesDialog({
+  isOpen,
+  onClose,
+  organization,
+  token,
+  repositories,
+  target,
+  onSaved,
+}: ProtectionRulesDialogProps) {
+  const client = useGitHubClient(token)
+  const [draft, setDraft] = useState<ProtectionDraft>(EMPTY_PROTECTION)
+  const [loading, setLoading] = useState(false)
+  // Set when the target's current rules could not be read; saving the empty draft would wipe them
+  const [loadError, setLoadError] = useState("")
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const isSaving = job?.status === "running" || job?.status === "paused"
+
+  // Bulk target selection
+  const [environmentName, setEnvironmentName] = useState("")
+  const [selectedRepos, setSelectedRepos] = useState<string[]>([])
+
+  // Pending entries
+  const [reviewerType, setReviewerType] = useState<ReviewerType>("User")
+  const [reviewerName, setReviewerName] = useState("")
+  const [isAddingReviewer, setIsAddingReviewer] = useState(false)
+  const [patternType, setPatternType] = useState<PatternType>("branch")
+  const [patternName, setPatternName] = useState("")
+
+  useEffect(() => {
+    if (!isOpen) {
+      return
+    }
+    setJobId(null)
+    setLoadError("")
+    if (target) {
+      loadProtection(target.repo, target.env)
+    } else {
+      setDraft(EMPTY_PROTECTION)
+    }
+  }, [isOpen, target])
+
+  const loadProtection = async (repo: string, env: string) => {
+    setLoading(true)
+    setLoadError("")
+    try {
+      setDraft((await fetchProtection(client, organization, repo, env)) || EMPTY_PROTECTION)
+    } catch (error) {
+      console.error("Error fetching protection rules:", error)
+      setLoadError(describeError(error))
+      toast({
+        title: "Error",
+        description: `Failed to load protection rules: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addReviewer = async () => {
+    const name = reviewerName.trim()
+    if (!name || draft.reviewers.length >= MAX_REVIEWERS) return
+
+    setIsAddingReviewer(true)
+    try {
+      const id =
+        reviewerType === "User" ? (await client.getUser(name)).id : (await client.getTeam(organization, name)).id
+      if (!draft.reviewers.some((r) => r.type === reviewerType && r.id === id)) {
+        setDraft({ ...draft, reviewers: [...draft.reviewers, { type: reviewerType, id, name }] })
+      }
+      setReviewerName("")
+    } catch (error) {
+      toast({
+        title: "Reviewer Not Found",
+        description: `Could not resolve ${reviewerType === "User" ? "user" : "team"} "${name}": ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsAddingReviewer(false)
+    }
+  }
+
+  const addPattern = () => {
+    const name = patternName.trim()
+    if (!name || draft.patterns.some((p) => p.name === name && p.type === patternType)) return
+    setDraft({ ...draft, patterns: [...draft.patterns, { name, type: patternType }] })
+    setPatternName("")
+  }
+
+  const handleRepoSelection = (repoName: string, checked: boolean) => {
+    if (checked) {
+      setSelectedRepos([...selectedRepos, repoName])
+    } else {
+      setSelectedRepos(selectedRepos.filter((r) => r !== repoName))
+    }
+  }
+
+  const saveProtection = () => {
+    const env = target ? target.env : environmentName.trim()
+    const repos = target ? [target.repo] : selectedRepos
+    if (!env || repos.length === 0) return
+
+    const rules = draft
+    const id = startJob(
+      `Apply protection rules to ${env}`,
+      repos.map((repo) => ({
+        label: `${repo}/${env}`,
+        run: () => applyProtection(client, organization, repo, env, rules),
+      })),
+      {
+        onSettled: (finished) => {
+          const counts = countTasks(finished)
+          toast({
+            title: counts.failed > 0 ? "Protection Rules Partially Saved" : "Protection Rules Saved",
+            description: `Applied protection rules to "${env}" in ${counts.succeeded}/${counts.total} repositories`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          onSaved?.()
+        },
+      },
+    )
+    setJobId(id)
+  }
+
+  const canSave = target ? !loading && !loadError : !!environmentName.trim() && selectedRepos.length > 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SettingsIcon className="h-5 w-5" />
+            Protection Rules
+          </DialogTitle>
+          <DialogDescription>
+            {target ? (
+              <>
+                Deployment protection for <Badge variant="outline">{target.repo}</Badge> in{" "}
+                <Badge variant="outline">{target.env}</Badge>
+              </>
+            ) : (
+              "Apply the same deployment protection rules to an environment across repositories"
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : target && loadError ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-sm text-destructive">Failed to load the current protection rules: {loadError}</p>
+            <Button
+              variant="outline"
+              className="bg-transparent"
+              onClick={() => loadProtection(target.repo, target.env)}
+            >
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {!target && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm">Targets ({selectedRepos.length} repositories selected)</CardTitle>
+                  <CardDescription>Environments are created if they don't exist</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="protection-env-name" className="text-xs">
+                      Environment
+                    </Label>
+                    <Input
+                      id="protection-env-name"
+                      placeholder="e.g., production"
+                      value={environmentName}
+                      onChange={(e) => setEnvironmentName(e.target.value.toLowerCase())}
+                      className="font-mono text-sm"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSelectedRepos(repositories.map((r) => r.name))}
+                      className="text-xs h-7 bg-transparent"
+                    >
+                      Select All
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSelectedRepos([])}
+                      className="text-xs h-7 bg-transparent"
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                  <ScrollArea className="h-40">
+                    <div className="space-y-2">
+                      {repositories.map((repo) => (
+                        <div key={repo.name} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`protection-repo-${repo.name}`}
+                            checked={selectedRepos.includes(repo.name)}
+                            onCheckedChange={(checked) => handleRepoSelection(repo.name, checked as boolean)}
+                            disabled={isSaving}
+                          />
+                          <Label htmlFor={`protection-repo-${repo.name}`} className="text-sm flex-1">
+                            {repo.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Required reviewers */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Required Reviewers</CardTitle>
+                <CardDescription>
+                  Up to {MAX_REVIEWERS} users or teams, one of whom must approve each deployment
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  <Select value={reviewerType} onValueChange={(value) => setReviewerType(value as ReviewerType)}>
+                    <SelectTrigger className="w-28 h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="User">User</SelectItem>
+                      <SelectItem value="Team">Team</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={reviewerType === "User" ? "username" : "team-slug"}
+                    value={reviewerName}
+                    onChange={(e) => setReviewerName(e.target.value)}
+                    className="font-mono text-sm h-9"
+                    disabled={isSaving || draft.reviewers.length >= MAX_REVIEWERS}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1 h-9 bg-transparent"
+                    onClick={addReviewer}
+                    disabled={!reviewerName.trim() || isAddingReviewer || draft.reviewers.length >= MAX_REVIEWERS}
+                  >
+                    <PlusIcon className="h-3 w-3" />
+                    Add
+                  </Button>
+                </div>
+                {draft.reviewers.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {draft.reviewers.map((reviewer) => (
+                      <Badge key={`${reviewer.type}-${reviewer.id}`} variant="secondary" className="gap-1 text-xs">
+                        {reviewer.type === "Team" ? `@${organization}/${reviewer.name}` : reviewer.name}
+                        <button
+                          onClick={() =>
+                            setDraft({
+                              ...draft,
+                              reviewers: draft.reviewers.filter(
+                                (r) => !(r.type === reviewer.type && r.id === reviewer.id),
+                              ),
+                            })
+                          }
+                          className="ml-1 hover:text-destructive"
+                          disabled={isSaving}
+                        >
+                          <TrashIcon className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="protection-self-review" className="text-xs">
+                    Prevent self-review
+                  </Label>
+                  <Switch
+                    id="protection-self-review"
+                    checked={draft.preventSelfReview}
+                    onCheckedChange={(checked) => setDraft({ ...draft, preventSelfReview: checked })}
+                    disabled={isSaving}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Wait timer */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Wait Timer</CardTitle>
+                <CardDescription>Minutes to wait before a deployment can proceed (0 to disable)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_WAIT_TIMER}
+                  value={draft.waitTimer}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      waitTimer: Math.min(MAX_WAIT_TIMER, Math.max(0, Number(e.target.value) || 0)),
+                    })
+                  }
+                  className="w-40 text-sm"
+                  disabled={isSaving}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Deployment branches */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Deployment Branches and Tags</CardTitle>
+                <CardDescription>Which refs are allowed to deploy to this environment</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Select
+                  value={draft.branchPolicy}
+                  onValueChange={(value) => setDraft({ ...draft, branchPolicy: value as BranchPolicyMode })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BRANCH_POLICY_LABELS) as BranchPolicyMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {BRANCH_POLICY_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {draft.branchPolicy === "custom" && (
+                  <>
+                    <div className="flex gap-2">
+                      <Select value={patternType} onValueChange={(value) => setPatternType(value as PatternType)}>
+                        <SelectTrigger className="w-28 h-9 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="branch">Branch</SelectItem>
+                          <SelectItem value="tag">Tag</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder={patternType === "branch" ? "release/*" : "v*"}
+                        value={patternName}
+                        onChange={(e) => setPatternName(e.target.value)}
+                        className="font-mono text-sm h-9"
+                        disabled={isSaving}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1 h-9 bg-transparent"
+                        onClick={addPattern}
+                        disabled={!patternName.trim() || isSaving}
+                      >
+                        <PlusIcon className="h-3 w-3" />
+                        Add
+                      </Button>
+                    </div>
+                    {draft.patterns.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No patterns yet; nothing will be able to deploy</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {draft.patterns.map((pattern) => (
+                          <div
+                            key={`${pattern.type}:${pattern.name}`}
+                            className="flex items-center justify-between p-2 border rounded-lg"
+                          >
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="text-xs capitalize">
+                                {pattern.type}
+                              </Badge>
+                              <span className="font-mono text-xs">{pattern.name}</span>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                              onClick={() =>
+                                setDraft({
+                                  ...draft,
+                                  patterns: draft.patterns.filter(
+                                    (p) => !(p.name === pattern.name && p.type === pattern.type),
+                                  ),
+                                })
+                              }
+                              disabled={isSaving}
+                            >
+                              <TrashIcon className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Button onClick={saveProtection} disabled={!canSave || isSaving} className="w-full">
+              {isSaving
+                ? "Saving..."
+                : target
+                  ? "Save Protection Rules"
+                  : `Apply to ${selectedRepos.length} ${selectedRepos.length === 1 ? "Repository" : "Repositories"}`}
+            </Button>
+
+            {jobId && !target && <JobProgress jobId={jobId} />}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
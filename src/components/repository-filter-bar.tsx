@@ -0,0 +1,192 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TrashIcon } from "@/components/icons"
+import type { Repository } from "@/lib/github-types"
+import { environmentNames, type EnvironmentsByRepository } from "@/lib/environment-names"
+import {
+  DEFAULT_REPOSITORY_FILTER,
+  deleteFilterPreset,
+  getFilterPresets,
+  isDefaultFilter,
+  repositoryLanguages,
+  repositoryTopics,
+  saveFilterPreset,
+  type FilterPreset,
+  type RepositoryFilter,
+} from "@/lib/repository-filter"
+
+interface RepositoryFilterBarProps {
+  organization: string
+  repositories: Repository[]
+  environments: EnvironmentsByRepository
+  filter: RepositoryFilter
+  onChange: (filter: RepositoryFilter) => void
+}
+
+export function RepositoryFilterBar({
+  organization,
+  repositories,
+  environments,
+  filter,
+  onChange,
+}: RepositoryFilterBarProps) {
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  const [presetName, setPresetName] = useState("")
+
+  useEffect(() => {
+    setPresets(getFilterPresets(organization))
+  }, [organization])
+
+  const update = (changes: Partial<RepositoryFilter>) => onChange({ ...filter, ...changes })
+
+  const savePreset = () => {
+    if (!presetName.trim()) return
+    setPresets(saveFilterPreset(organization, presetName.trim(), filter))
+    setPresetName("")
+  }
+
+  const topics = repositoryTopics(repositories)
+  const languages = repositoryLanguages(repositories)
+  const envNames = environmentNames(environments)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Search repositories..."
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          className="h-8 w-64 text-sm"
+        />
+        <Select
+          value={filter.visibility}
+          onValueChange={(value) => update({ visibility: value as RepositoryFilter["visibility"] })}
+        >
+          <SelectTrigger className="h-8 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All visibility</SelectItem>
+            <SelectItem value="private">Private</SelectItem>
+            <SelectItem value="public">Public</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.archived}
+          onValueChange={(value) => update({ archived: value as RepositoryFilter["archived"] })}
+        >
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="include">With archived</SelectItem>
+            <SelectItem value="exclude">Hide archived</SelectItem>
+            <SelectItem value="only">Only archived</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filter.topic} onValueChange={(value) => update({ topic: value })}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All topics</SelectItem>
+            {topics.map((topic) => (
+              <SelectItem key={topic} value={topic}>
+                {topic}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filter.language} onValueChange={(value) => update({ language: value })}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All languages</SelectItem>
+            {languages.map((language) => (
+              <SelectItem key={language} value={language}>
+                {language}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filter.environment} onValueChange={(value) => update({ environment: value })}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any environment</SelectItem>
+            {envNames.map((env) => (
+              <SelectItem key={env} value={env}>
+                Has {env}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filter.sort} onValueChange={(value) => update({ sort: value as RepositoryFilter["sort"] })}>
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="updated">Recently updated</SelectItem>
+            <SelectItem value="name">Name</SelectItem>
+          </SelectContent>
+        </Select>
+        {!isDefaultFilter(filter) && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-xs h-8"
+            onClick={() => onChange({ ...DEFAULT_REPOSITORY_FILTER, sort: filter.sort })}
+          >
+            Reset
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {presets.map((preset) => (
+          <div key={preset.name} className="flex items-center border rounded-md">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-xs h-7 rounded-r-none"
+              onClick={() => onChange(preset.filter)}
+            >
+              {preset.name}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 rounded-l-none text-muted-foreground hover:text-destructive"
+              onClick={() => setPresets(deleteFilterPreset(organization, preset.name))}
+              title={`Delete preset ${preset.name}`}
+            >
+              <TrashIcon className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <Input
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && savePreset()}
+          className="h-7 w-36 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-xs h-7 bg-transparent"
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+        >
+          Save Filter
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -4,40 +4,33 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ArrowLeftIcon, RepositoryIcon, PlusIcon, SettingsIcon, ListIcon } from "@/components/icons"
+import { ArrowLeftIcon, RepositoryIcon, PlusIcon, SettingsIcon, ListIcon, BuildingIcon } from "@/components/icons"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { EnvironmentManager } from "@/components/environment-manager"
 import { BulkOperations } from "@/components/bulk-operations"
 import { GlobalSecretsList } from "@/components/global-secrets-list"
 import { CreateEnvironmentDialog } from "@/components/create-environment-dialog"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
-
-interface Organization {
-  id: number
-  login: string
-  avatar_url: string
-  description?: string
-}
-
-interface Repository {
-  id: number
-  name: string
-  full_name: string
-  description?: string
-  private: boolean
-  default_branch: string
-  updated_at: string
-}
-
-interface Environment {
-  id: number
-  name: string
-  protection_rules: any[]
-  deployment_branch_policy?: {
-    protected_branches: boolean
-    custom_branch_policies: boolean
-  }
-}
+import { OrganizationSecretsManager } from "@/components/organization-secrets-manager"
+import { ProtectionRulesDialog } from "@/components/protection-rules-dialog"
+import { ManifestDialog } from "@/components/manifest-dialog"
+import { JobHistoryDialog } from "@/components/job-history-dialog"
+import { AuditLogDialog } from "@/components/audit-log-dialog"
+import { RepositoryFilterBar } from "@/components/repository-filter-bar"
+import { RepositoryMatrix } from "@/components/repository-matrix"
+import { CapabilityNotice } from "@/components/capability-report"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useTokenCapabilities } from "@/hooks/use-token-capabilities"
+import { capabilityBlocker } from "@/lib/token-capabilities"
+import { useJobs } from "@/hooks/use-jobs"
+import type { Environment, Organization, Repository } from "@/lib/github-types"
+import { describeProtection } from "@/lib/environment-protection"
+import { loadEnvironments } from "@/lib/environment-loader"
+import {
+  DEFAULT_REPOSITORY_FILTER,
+  filterRepositories,
+  isDefaultFilter,
+  type RepositoryFilter,
+} from "@/lib/repository-filter"
 
 interface RepositoryGridProps {
   organization: Organization
@@ -45,12 +38,16 @@ interface RepositoryGridProps {
   onBack: () => void
 }
 
-const COMMON_ENVIRONMENTS = ["production", "staging", "development", "preview"]
-
 export function RepositoryGrid({ organization, token, onBack }: RepositoryGridProps) {
+  const client = useGitHubClient(token)
+  const capabilities = useTokenCapabilities(token)
+  const orgSecretsBlocker = capabilityBlocker(capabilities, "organizationSecrets", { owner: organization.login })
+  const environmentBlocker = capabilityBlocker(capabilities, "environments")
+  const writeBlocker = capabilityBlocker(capabilities, "repositorySecrets")
   const [repositories, setRepositories] = useState<Repository[]>([])
   const [environments, setEnvironments] = useState<Record<string, Environment[]>>({})
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [environmentsLoading, setEnvironmentsLoading] = useState<Record<string, boolean>>({})
 
   const [selectedRepo, setSelectedRepo] = useState<string>("")
@@ -60,90 +57,54 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
   const [isBulkOpsOpen, setIsBulkOpsOpen] = useState(false)
   const [bulkOpsPreset, setBulkOpsPreset] = useState<{ repo?: string; env?: string } | null>(null)
   const [isCreateEnvOpen, setIsCreateEnvOpen] = useState(false)
+  const [isOrgSecretsOpen, setIsOrgSecretsOpen] = useState(false)
+  const [isProtectionOpen, setIsProtectionOpen] = useState(false)
+  const [isManifestOpen, setIsManifestOpen] = useState(false)
+  const [isJobsOpen, setIsJobsOpen] = useState(false)
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false)
+  const [filter, setFilter] = useState<RepositoryFilter>(DEFAULT_REPOSITORY_FILTER)
+  const activeJobs = useJobs().filter((job) => job.status === "running" || job.status === "paused").length
 
   useEffect(() => {
     fetchRepositories()
+    setFilter(DEFAULT_REPOSITORY_FILTER)
   }, [organization])
 
   const fetchRepositories = async () => {
     setLoading(true)
+    setRepositories([])
+    setEnvironments({})
     try {
-      const response = await fetch(`${getGitHubApiUrl()}/orgs/${organization.login}/repos?per_page=100&sort=updated`, {
-        headers: getGitHubHeaders(token),
-      })
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch repositories")
-      }
-
-      const repos = await response.json()
-      setRepositories(repos)
-
-      // Fetch environments for each repository
-      repos.forEach((repo: Repository) => {
-        fetchEnvironments(repo.name)
+      // Render each page as soon as it arrives while the remaining pages load
+      await client.listRepositories(organization.login, (page, loaded) => {
+        setRepositories(loaded)
+        setLoading(false)
+        setLoadingMore(true)
+
+        // Fetch environments for the whole page in batches
+        fetchEnvironments(page.map((repo) => repo.name))
       })
     } catch (error) {
       console.error("Error fetching repositories:", error)
     } finally {
       setLoading(false)
+      setLoadingMore(false)
     }
   }
 
-  const fetchEnvironments = async (repoName: string) => {
-    setEnvironmentsLoading((prev) => ({ ...prev, [repoName]: true }))
-    try {
-      const response = await fetch(`${getGitHubApiUrl()}/repos/${organization.login}/${repoName}/environments`, {
-        headers: getGitHubHeaders(token),
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setEnvironments((prev) => ({
-          ...prev,
-          [repoName]: data.environments || [],
-        }))
-      } else {
-        // If environments endpoint fails, set empty array
-        setEnvironments((prev) => ({
-          ...prev,
-          [repoName]: [],
-        }))
-      }
-    } catch (error) {
-      console.error(`Error fetching environments for ${repoName}:`, error)
+  const fetchEnvironments = async (repoNames: string[]) => {
+    setEnvironmentsLoading((prev) => ({ ...prev, ...Object.fromEntries(repoNames.map((name) => [name, true])) }))
+    await loadEnvironments(client, organization.login, repoNames, (repoName, repoEnvironments) => {
       setEnvironments((prev) => ({
         ...prev,
-        [repoName]: [],
+        [repoName]: repoEnvironments,
       }))
-    } finally {
       setEnvironmentsLoading((prev) => ({ ...prev, [repoName]: false }))
-    }
+    })
   }
 
-  const createEnvironment = async (repoName: string, envName: string) => {
-    try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization.login}/${repoName}/environments/${envName}`,
-        {
-          method: "PUT",
-          headers: {
-            ...getGitHubHeaders(token),
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({}),
-        },
-      )
-
-      if (response.ok) {
-        // Refresh environments for this repo
-        fetchEnvironments(repoName)
-      } else {
-        console.error("Failed to create environment")
-      }
-    } catch (error) {
-      console.error("Error creating environment:", error)
-    }
+  const refreshEnvironments = () => {
+    fetchEnvironments(repositories.map((repo) => repo.name))
   }
 
   const openEnvironmentManager = (repoName: string, envName: string) => {
@@ -163,6 +124,12 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
     return repoEnvs.some((env) => env.name === envName)
   }
 
+  const getProtectionSummary = (repoName: string, envName: string) => {
+    const env = (environments[repoName] || []).find((e) => e.name === envName)
+    const summary = env ? describeProtection(env) : []
+    return summary.length > 0 ? summary.join(", ") : "No protection rules"
+  }
+
   const getAllEnvironments = () => {
     const allEnvs = new Set<string>()
     Object.values(environments).forEach((envList) => {
@@ -176,11 +143,15 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
     setIsBulkOpsOpen(true)
   }
 
-  const hasSecretsOrVariables = (repoName: string, envName: string) => {
-    return hasEnvironment(repoName, envName)
-  }
+  const environmentNamesByRepo = Object.fromEntries(
+    Object.entries(environments).map(([repoName, envList]) => [repoName, envList.map((env) => env.name)]),
+  )
+
+  // The grid and the bulk dialogs only offer repositories that match the filter
+  const visibleRepositories = filterRepositories(repositories, filter, environmentNamesByRepo)
+  const isFiltered = !isDefaultFilter(filter)
 
-  const displayEnvironments = getAllEnvironments().length > 0 ? getAllEnvironments() : COMMON_ENVIRONMENTS
+  const displayEnvironments = getAllEnvironments()
 
   if (loading) {
     return (
@@ -211,107 +182,113 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
             </Avatar>
             <div>
               <h2 className="text-xl font-semibold text-foreground">{organization.login}</h2>
-              <p className="text-sm text-muted-foreground">{repositories.length} repositories</p>
+              <p className="text-sm text-muted-foreground">
+                {isFiltered ? `${visibleRepositories.length} of ${repositories.length}` : repositories.length}{" "}
+                repositories{loadingMore && " (loading more...)"}
+              </p>
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className="gap-2 bg-transparent"
+            onClick={() => setIsOrgSecretsOpen(true)}
+            disabled={!!orgSecretsBlocker}
+          >
+            <BuildingIcon className="h-4 w-4" />
+            Org Secrets
+          </Button>
           <Button variant="outline" className="gap-2 bg-transparent" onClick={() => setIsGlobalListOpen(true)}>
             <ListIcon className="h-4 w-4" />
             List secrets
           </Button>
-          <Button variant="outline" className="gap-2 bg-transparent" onClick={() => setIsCreateEnvOpen(true)}>
+          <Button
+            variant="outline"
+            className="gap-2 bg-transparent"
+            onClick={() => setIsProtectionOpen(true)}
+            disabled={!!environmentBlocker}
+          >
+            <SettingsIcon className="h-4 w-4" />
+            Protection Rules
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2 bg-transparent"
+            onClick={() => setIsManifestOpen(true)}
+            disabled={!!writeBlocker}
+          >
+            <ListIcon className="h-4 w-4" />
+            Manifest
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2 bg-transparent"
+            onClick={() => setIsCreateEnvOpen(true)}
+            disabled={!!environmentBlocker}
+          >
             <PlusIcon className="h-4 w-4" />
             Create Environment
           </Button>
-          <Button className="gap-2" onClick={() => openBulkOperations()}>
+          <Button variant="outline" className="gap-2 bg-transparent" onClick={() => setIsJobsOpen(true)}>
+            <ListIcon className="h-4 w-4" />
+            Jobs
+            {activeJobs > 0 && (
+              <Badge variant="secondary" className="text-xs">
+                {activeJobs}
+              </Badge>
+            )}
+          </Button>
+          <Button variant="outline" className="gap-2 bg-transparent" onClick={() => setIsAuditLogOpen(true)}>
+            <ListIcon className="h-4 w-4" />
+            Audit Log
+          </Button>
+          <Button className="gap-2" onClick={() => openBulkOperations()} disabled={!!writeBlocker}>
             <SettingsIcon className="h-4 w-4" />
             Bulk Operations
           </Button>
         </div>
       </div>
 
+      <CapabilityNotice blockers={[orgSecretsBlocker, environmentBlocker, writeBlocker]} />
+
       {/* Repository Grid */}
       <Card>
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <CardTitle className="flex items-center gap-2">
             <RepositoryIcon className="h-5 w-5" />
             Repository Environments
           </CardTitle>
+          <RepositoryFilterBar
+            organization={organization.login}
+            repositories={repositories}
+            environments={environmentNamesByRepo}
+            filter={filter}
+            onChange={setFilter}
+          />
         </CardHeader>
         <CardContent>
-          <div className="overflow-x-auto">
-            <div className="min-w-[800px]">
-              {/* Header Row */}
-              <div
-                className={`grid gap-4 pb-4 border-b border-border`}
-                style={{ gridTemplateColumns: `300px repeat(${displayEnvironments.length}, 1fr)` }}
-              >
-                <div className="font-medium text-sm text-muted-foreground">Repository</div>
-                {displayEnvironments.map((env) => (
-                  <div key={env} className="font-medium text-sm text-muted-foreground text-center capitalize">
-                    {env}
-                  </div>
-                ))}
-              </div>
-
-              {/* Repository Rows */}
-              <div className="space-y-3 pt-4">
-                {repositories.map((repo) => (
-                  <div
-                    key={repo.id}
-                    className="grid gap-4 items-center py-3 hover:bg-accent/30 rounded-lg px-2 -mx-2 transition-colors"
-                    style={{ gridTemplateColumns: `300px repeat(${displayEnvironments.length}, 1fr)` }}
-                  >
-                    {/* Repository Info */}
-                    <div className="space-y-1">
-                      <div className="flex items-center gap-2">
-                        <h3 className="font-medium text-sm truncate">{repo.name}</h3>
-                        {repo.private && (
-                          <Badge variant="secondary" className="text-xs">
-                            Private
-                          </Badge>
-                        )}
-                      </div>
-                      {repo.description && (
-                        <p className="text-xs text-muted-foreground line-clamp-1">{repo.description}</p>
-                      )}
-                    </div>
-
-                    {/* Environment Columns */}
-                    {displayEnvironments.map((envName) => (
-                      <div key={envName} className="flex justify-center">
-                        {environmentsLoading[repo.name] ? (
-                          <div className="animate-spin rounded-full h-4 w-4 border-b border-primary"></div>
-                        ) : hasEnvironment(repo.name, envName) ? (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="gap-1 text-xs h-7 bg-transparent"
-                            onClick={() => openEnvironmentManager(repo.name, envName)}
-                          >
-                            <SettingsIcon className="h-3 w-3" />
-                            Manage
-                          </Button>
-                        ) : (
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="gap-1 text-xs h-7 text-muted-foreground hover:text-foreground"
-                            onClick={() => openBulkOperations(repo.name, envName)}
-                          >
-                            <PlusIcon className="h-3 w-3" />
-                            Create
-                          </Button>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+          {repositories.length > 0 && visibleRepositories.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No repositories match the filter</p>
+          ) : (
+            <RepositoryMatrix
+              repositories={visibleRepositories}
+              environments={displayEnvironments}
+              environmentsLoading={environmentsLoading}
+              hasEnvironment={hasEnvironment}
+              getProtectionSummary={getProtectionSummary}
+              onManage={openEnvironmentManager}
+              onCreate={openBulkOperations}
+              createBlocker={(repoName) =>
+                capabilityBlocker(capabilities, "environments", { owner: organization.login, repository: repoName }) ??
+                capabilityBlocker(capabilities, "repositorySecrets", {
+                  owner: organization.login,
+                  repository: repoName,
+                })
+              }
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -330,9 +307,11 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
         onClose={closeEnvironmentManager}
         organization={organization.login}
         repository={selectedRepo}
-        environment={selectedEnv}
+        environment={selectedEnv || undefined}
         token={token}
         allRepositories={repositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        environments={environmentNamesByRepo}
+        onEnvironmentsChanged={refreshEnvironments}
       />
 
       <GlobalSecretsList
@@ -340,6 +319,7 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
         onClose={() => setIsGlobalListOpen(false)}
         organization={organization.login}
         repositories={repositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        environments={environmentNamesByRepo}
         token={token}
       />
 
@@ -351,11 +331,44 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
         }}
         organization={organization.login}
         token={token}
-        repositories={repositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        repositories={visibleRepositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        isFiltered={isFiltered}
+        environments={environmentNamesByRepo}
         preset={bulkOpsPreset}
-        onEnvironmentCreated={() => {
-          repositories.forEach((repo) => fetchEnvironments(repo.name))
-        }}
+        onEnvironmentCreated={refreshEnvironments}
+      />
+
+      <OrganizationSecretsManager
+        isOpen={isOrgSecretsOpen}
+        onClose={() => setIsOrgSecretsOpen(false)}
+        organization={organization.login}
+        token={token}
+        repositories={repositories}
+      />
+
+      <ProtectionRulesDialog
+        isOpen={isProtectionOpen}
+        onClose={() => setIsProtectionOpen(false)}
+        organization={organization.login}
+        token={token}
+        repositories={repositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        onSaved={refreshEnvironments}
+      />
+
+      <ManifestDialog
+        isOpen={isManifestOpen}
+        onClose={() => setIsManifestOpen(false)}
+        organization={organization.login}
+        token={token}
+        onEnvironmentCreated={refreshEnvironments}
+      />
+
+      <JobHistoryDialog isOpen={isJobsOpen} onClose={() => setIsJobsOpen(false)} />
+
+      <AuditLogDialog
+        isOpen={isAuditLogOpen}
+        onClose={() => setIsAuditLogOpen(false)}
+        organization={organization.login}
       />
 
       <CreateEnvironmentDialog
@@ -363,10 +376,9 @@ export function RepositoryGrid({ organization, token, onBack }: RepositoryGridPr
         onClose={() => setIsCreateEnvOpen(false)}
         organization={organization.login}
         token={token}
-        repositories={repositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
-        onEnvironmentCreated={() => {
-          repositories.forEach((repo) => fetchEnvironments(repo.name))
-        }}
+        repositories={visibleRepositories.map((repo) => ({ name: repo.name, full_name: repo.full_name }))}
+        isFiltered={isFiltered}
+        onEnvironmentCreated={refreshEnvironments}
       />
     </div>
   )
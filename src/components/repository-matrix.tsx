@@ -0,0 +1,171 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { PlusIcon, SettingsIcon } from "@/components/icons"
+import { useVirtualGrid } from "@/hooks/use-virtual-grid"
+import type { Repository } from "@/lib/github-types"
+
+interface RepositoryMatrixProps {
+  repositories: Repository[]
+  // Column order
+  environments: string[]
+  environmentsLoading: Record<string, boolean>
+  hasEnvironment: (repoName: string, envName: string) => boolean
+  getProtectionSummary: (repoName: string, envName: string) => string
+  // An empty environment name means repository-level secrets and variables
+  onManage: (repoName: string, envName: string) => void
+  onCreate: (repoName: string, envName: string) => void
+  // Why environments cannot be created in a repository, or null when they can
+  createBlocker: (repoName: string) => string | null
+}
+
+const NAME_WIDTH = 300
+const REPOSITORY_COLUMN_WIDTH = 120
+const LEADING_WIDTH = NAME_WIDTH + REPOSITORY_COLUMN_WIDTH
+const MIN_COLUMN_WIDTH = 140
+const ROW_HEIGHT = 60
+const HEADER_HEIGHT = 44
+
+// Repositories × environments. Only the cells in view are rendered, so organizations with
+// thousands of repositories stay responsive; the name column and header row stay pinned.
+export function RepositoryMatrix({
+  repositories,
+  environments,
+  environmentsLoading,
+  hasEnvironment,
+  getProtectionSummary,
+  onManage,
+  onCreate,
+  createBlocker,
+}: RepositoryMatrixProps) {
+  const { ref, rows, columns, columnWidth, totalWidth, totalHeight } = useVirtualGrid({
+    rowCount: repositories.length,
+    rowHeight: ROW_HEIGHT,
+    columnCount: environments.length,
+    minColumnWidth: MIN_COLUMN_WIDTH,
+    headerHeight: HEADER_HEIGHT,
+    leadingWidth: LEADING_WIDTH,
+  })
+
+  const visibleColumns = environments.slice(columns.start, columns.end).map((envName, i) => ({
+    envName,
+    left: LEADING_WIDTH + (columns.start + i) * columnWidth,
+  }))
+
+  return (
+    <div ref={ref} className="relative overflow-auto max-h-[70vh] border rounded-lg">
+      <div className="relative" style={{ width: totalWidth, height: totalHeight }}>
+        {/* Header Row */}
+        <div
+          className="sticky top-0 z-20 bg-card border-b border-border"
+          style={{ width: totalWidth, height: HEADER_HEIGHT }}
+        >
+          <div
+            className="sticky left-0 z-30 flex h-full items-center bg-card font-medium text-sm text-muted-foreground"
+            style={{ width: LEADING_WIDTH }}
+          >
+            <div className="px-4" style={{ width: NAME_WIDTH }}>
+              Name
+            </div>
+            <div className="text-center" style={{ width: REPOSITORY_COLUMN_WIDTH }}>
+              Repository
+            </div>
+          </div>
+          {visibleColumns.map(({ envName, left }) => (
+            <div
+              key={envName}
+              className="absolute top-0 flex h-full items-center justify-center px-2 font-medium text-sm text-muted-foreground capitalize"
+              style={{ left, width: columnWidth }}
+            >
+              <span className="truncate" title={envName}>
+                {envName}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Repository Rows */}
+        {repositories.slice(rows.start, rows.end).map((repo, i) => (
+          <div
+            key={repo.id}
+            className="group absolute left-0 border-b border-border/50 hover:bg-accent/30 transition-colors"
+            style={{ top: HEADER_HEIGHT + (rows.start + i) * ROW_HEIGHT, width: totalWidth, height: ROW_HEIGHT }}
+          >
+            <div
+              className="sticky left-0 z-10 flex h-full items-center bg-card group-hover:bg-accent"
+              style={{ width: LEADING_WIDTH }}
+            >
+              {/* Repository Info */}
+              <div className="px-4 space-y-1 min-w-0" style={{ width: NAME_WIDTH }}>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium text-sm truncate">{repo.name}</h3>
+                  {repo.private && (
+                    <Badge variant="secondary" className="text-xs">
+                      Private
+                    </Badge>
+                  )}
+                  {repo.archived && (
+                    <Badge variant="outline" className="text-xs">
+                      Archived
+                    </Badge>
+                  )}
+                </div>
+                {repo.description && <p className="text-xs text-muted-foreground line-clamp-1">{repo.description}</p>}
+              </div>
+
+              {/* Repository-level secrets and variables */}
+              <div className="flex justify-center" style={{ width: REPOSITORY_COLUMN_WIDTH }}>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1 text-xs h-7 bg-transparent"
+                  onClick={() => onManage(repo.name, "")}
+                >
+                  <SettingsIcon className="h-3 w-3" />
+                  Manage
+                </Button>
+              </div>
+            </div>
+
+            {/* Environment Columns */}
+            {visibleColumns.map(({ envName, left }) => (
+              <div
+                key={envName}
+                className="absolute top-0 flex h-full items-center justify-center"
+                style={{ left, width: columnWidth }}
+              >
+                {environmentsLoading[repo.name] ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b border-primary"></div>
+                ) : hasEnvironment(repo.name, envName) ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1 text-xs h-7 bg-transparent"
+                    onClick={() => onManage(repo.name, envName)}
+                    title={getProtectionSummary(repo.name, envName)}
+                  >
+                    <SettingsIcon className="h-3 w-3" />
+                    Manage
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1 text-xs h-7 text-muted-foreground hover:text-foreground"
+                    onClick={() => onCreate(repo.name, envName)}
+                    disabled={!!createBlocker(repo.name)}
+                    title={createBlocker(repo.name) ?? undefined}
+                  >
+                    <PlusIcon className="h-3 w-3" />
+                    Create
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
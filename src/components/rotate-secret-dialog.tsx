@@ -0,0 +1,254 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { KeyIcon } from "@/components/icons"
+import { JobProgress } from "@/components/job-progress"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useJob } from "@/hooks/use-jobs"
+import { countTasks, startJob } from "@/lib/job-engine"
+import {
+  describeRotationLocation,
+  getRotationHistory,
+  isRotationDue,
+  recordRotation,
+  rotateSecret,
+  secretAgeDays,
+  type RotationLocation,
+  type RotationRecord,
+} from "@/lib/secret-rotation"
+
+interface RotateSecretDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  token: string
+  secretName: string
+  // Every location where the secret currently exists
+  locations: Array<RotationLocation & { updatedAt: string }>
+  maxAgeDays: number
+  onRotated?: () => void
+}
+
+const locationKey = (location: RotationLocation) => describeRotationLocation(location)
+
+export function RotateSecretDialog({
+  isOpen,
+  onClose,
+  organization,
+  token,
+  secretName,
+  locations,
+  maxAgeDays,
+  onRotated,
+}: RotateSecretDialogProps) {
+  const client = useGitHubClient(token)
+  const [selected, setSelected] = useState<string[]>([])
+  const [newValue, setNewValue] = useState("")
+  const [confirmValue, setConfirmValue] = useState("")
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [history, setHistory] = useState<RotationRecord[]>([])
+  const job = useJob(jobId)
+  const isRotating = job?.status === "running" || job?.status === "paused"
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(locations.map(locationKey))
+      setNewValue("")
+      setConfirmValue("")
+      setJobId(null)
+      setHistory(getRotationHistory(organization, secretName))
+    }
+  }, [isOpen, organization, secretName])
+
+  const toggleLocation = (key: string, checked: boolean) => {
+    setSelected(checked ? [...selected, key] : selected.filter((k) => k !== key))
+  }
+
+  const rotate = () => {
+    const targets = locations.filter((location) => selected.includes(locationKey(location)))
+    if (!newValue || newValue !== confirmValue || targets.length === 0) return
+
+    const value = newValue
+    const id = startJob(
+      `Rotate secret ${secretName}`,
+      targets.map((location) => ({
+        label: locationKey(location),
+        run: () => rotateSecret(client, organization, location, secretName, value),
+      })),
+      {
+        onSettled: (finished) => {
+          // Settles again after a retry; the record for this job is replaced, not duplicated
+          recordRotation({
+            id: finished.id,
+            organization,
+            secretName,
+            rotatedAt: finished.createdAt,
+            locations: targets.map((location, index) => ({
+              repository: location.repository,
+              environment: location.environment,
+              success: finished.tasks[index].status === "succeeded",
+              error: finished.tasks[index].error,
+            })),
+          })
+          setHistory(getRotationHistory(organization, secretName))
+
+          const counts = countTasks(finished)
+          toast({
+            title: "Secret Rotated",
+            description: `Rotated ${secretName} in ${counts.succeeded}/${counts.total} locations`,
+            variant: counts.failed > 0 ? "destructive" : "default",
+          })
+          onRotated?.()
+        },
+      },
+    )
+    setJobId(id)
+    setNewValue("")
+    setConfirmValue("")
+  }
+
+  const mismatch = confirmValue.length > 0 && newValue !== confirmValue
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyIcon className="h-5 w-5" />
+            Rotate Secret
+          </DialogTitle>
+          <DialogDescription>
+            Push a new value for <Badge variant="outline">{secretName}</Badge> to every location where it exists
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">
+                Locations ({selected.length} of {locations.length} selected)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-40">
+                <div className="space-y-2">
+                  {locations.map((location) => {
+                    const key = locationKey(location)
+                    return (
+                      <div key={key} className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`rotate-${key}`}
+                            checked={selected.includes(key)}
+                            onCheckedChange={(checked) => toggleLocation(key, checked as boolean)}
+                            disabled={isRotating}
+                          />
+                          <Label htmlFor={`rotate-${key}`} className="font-mono text-xs">
+                            {key}
+                          </Label>
+                        </div>
+                        <Badge
+                          variant={isRotationDue(location.updatedAt, maxAgeDays) ? "destructive" : "outline"}
+                          className="text-xs"
+                        >
+                          {secretAgeDays(location.updatedAt)} days old
+                        </Badge>
+                      </div>
+                    )
+                  })}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">New Value</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rotate-value" className="text-xs">
+                    Value
+                  </Label>
+                  <Input
+                    id="rotate-value"
+                    type="password"
+                    placeholder="Enter new secret value"
+                    value={newValue}
+                    onChange={(e) => setNewValue(e.target.value)}
+                    className="font-mono text-sm"
+                    disabled={isRotating}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rotate-confirm" className="text-xs">
+                    Confirm Value
+                  </Label>
+                  <Input
+                    id="rotate-confirm"
+                    type="password"
+                    placeholder="Enter it again"
+                    value={confirmValue}
+                    onChange={(e) => setConfirmValue(e.target.value)}
+                    className="font-mono text-sm"
+                    disabled={isRotating}
+                  />
+                </div>
+              </div>
+              {mismatch && <p className="text-xs text-destructive">Values do not match</p>}
+              <Button
+                onClick={rotate}
+                disabled={!newValue || newValue !== confirmValue || selected.length === 0 || isRotating}
+                className="w-full"
+              >
+                {isRotating ? "Rotating..." : `Rotate in ${selected.length} Locations`}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {jobId && <JobProgress jobId={jobId} />}
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm">Rotation History</CardTitle>
+              <CardDescription className="text-xs">Recorded in this browser</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">Never rotated from this app</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.map((record) => (
+                    <div key={record.rotatedAt} className="p-2 border rounded-lg text-xs space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{new Date(record.rotatedAt).toLocaleString()}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {record.locations.filter((l) => l.success).length}/{record.locations.length} locations
+                        </Badge>
+                      </div>
+                      <p className="font-mono text-muted-foreground">
+                        {record.locations
+                          .map((l) => `${describeRotationLocation(l)}${l.success ? "" : " (failed)"}`)
+                          .join(", ")}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,27 +7,18 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { KeyIcon, SettingsIcon, ListIcon } from "@/components/icons"
 import { toast } from "@/hooks/use-toast"
-import { getGitHubApiUrl, getGitHubHeaders } from "@/lib/github-api"
-
-interface Secret {
-  name: string
-  created_at: string
-  updated_at: string
-}
-
-interface Variable {
-  name: string
-  value: string
-  created_at: string
-  updated_at: string
-}
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { describeError } from "@/lib/github-client"
+import { repositoryOrEnvironmentScope, type Secret, type Variable } from "@/lib/github-types"
+import { getRotationMaxAgeDays, isRotationDue, secretAgeDays } from "@/lib/secret-rotation"
 
 interface SecretsListDialogProps {
   isOpen: boolean
   onClose: () => void
   organization: string
   repository: string
-  environment: string
+  // Omit to list repository-level secrets and variables
+  environment?: string
   token: string
 }
 
@@ -39,10 +30,12 @@ export function SecretsListDialog({
   environment,
   token,
 }: SecretsListDialogProps) {
+  const client = useGitHubClient(token)
   const [secrets, setSecrets] = useState<Secret[]>([])
   const [variables, setVariables] = useState<Variable[]>([])
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("secrets")
+  const maxAgeDays = getRotationMaxAgeDays()
 
   useEffect(() => {
     if (isOpen) {
@@ -54,22 +47,15 @@ export function SecretsListDialog({
   const fetchSecrets = async () => {
     setLoading(true)
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/secrets`,
-        {
-          headers: getGitHubHeaders(token),
-        },
-      )
-
-      if (response.ok) {
-        const data = await response.json()
-        setSecrets(data.secrets || [])
-      }
+      await client.listSecrets(repositoryOrEnvironmentScope(organization, repository, environment), (_page, loaded) => {
+        setSecrets(loaded)
+        setLoading(false)
+      })
     } catch (error) {
       console.error("Error fetching secrets:", error)
       toast({
         title: "Error",
-        description: "Failed to fetch secrets",
+        description: `Failed to fetch secrets: ${describeError(error)}`,
         variant: "destructive",
       })
     } finally {
@@ -79,17 +65,9 @@ export function SecretsListDialog({
 
   const fetchVariables = async () => {
     try {
-      const response = await fetch(
-        `${getGitHubApiUrl()}/repos/${organization}/${repository}/environments/${environment}/variables`,
-        {
-          headers: getGitHubHeaders(token),
-        },
+      await client.listVariables(repositoryOrEnvironmentScope(organization, repository, environment), (_page, loaded) =>
+        setVariables(loaded),
       )
-
-      if (response.ok) {
-        const data = await response.json()
-        setVariables(data.variables || [])
-      }
     } catch (error) {
       console.error("Error fetching variables:", error)
     }
@@ -105,7 +83,7 @@ export function SecretsListDialog({
           </DialogTitle>
           <DialogDescription>
             Viewing secrets and variables for <Badge variant="outline">{repository}</Badge> in{" "}
-            <Badge variant="outline">{environment}</Badge>
+            <Badge variant="outline">{environment || "repository scope"}</Badge>
           </DialogDescription>
         </DialogHeader>
 
@@ -148,9 +126,16 @@ export function SecretsListDialog({
                             </p>
                           </div>
                         </div>
-                        <Badge variant="secondary" className="text-xs">
-                          Secret
-                        </Badge>
+                        <div className="flex gap-2">
+                          {isRotationDue(secret.updated_at, maxAgeDays) && (
+                            <Badge variant="destructive" className="text-xs">
+                              Rotation due ({secretAgeDays(secret.updated_at)} days old)
+                            </Badge>
+                          )}
+                          <Badge variant="secondary" className="text-xs">
+                            Secret
+                          </Badge>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,170 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ListIcon } from "@/components/icons"
+import { toast } from "@/hooks/use-toast"
+import { useGitHubClient } from "@/hooks/use-github-client"
+import { useUndoHistory } from "@/hooks/use-undo-history"
+import { describeError } from "@/lib/github-client"
+import { restoreUndoEntry, type UndoEntry } from "@/lib/undo-history"
+
+interface UndoHistoryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  organization: string
+  token: string
+  // Limits the list to one location; omit both to show the whole organization
+  repository?: string
+  environment?: string
+  onRestored?: (entry: UndoEntry) => void
+}
+
+export function UndoHistoryDialog({
+  isOpen,
+  onClose,
+  organization,
+  token,
+  repository,
+  environment,
+  onRestored,
+}: UndoHistoryDialogProps) {
+  const client = useGitHubClient(token)
+  const entries = useUndoHistory()
+  const [restoringId, setRestoringId] = useState("")
+  // The secret entry awaiting a re-entered value
+  const [secretEntryId, setSecretEntryId] = useState("")
+  const [secretValue, setSecretValue] = useState("")
+
+  const visible = entries
+    .filter(
+      (entry) =>
+        entry.organization === organization &&
+        (!repository || (entry.repository === repository && entry.environment === environment)),
+    )
+    .reverse()
+
+  const restore = async (entry: UndoEntry, value?: string) => {
+    setRestoringId(entry.id)
+    try {
+      await restoreUndoEntry(client, entry, value)
+      toast({
+        title: entry.kind === "secret" ? "Secret Recreated" : "Variable Restored",
+        description: `Restored ${entry.name}`,
+      })
+      setSecretEntryId("")
+      setSecretValue("")
+      onRestored?.(entry)
+    } catch (error) {
+      console.error("Error restoring change:", error)
+      toast({
+        title: "Error",
+        description: `Failed to restore ${entry.name}: ${describeError(error)}`,
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId("")
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListIcon className="h-5 w-5" />
+            Change History
+          </DialogTitle>
+          <DialogDescription>
+            Variables are restored to their previous value. Secret values cannot be read back, so a deleted secret is
+            recreated with a value you enter.
+          </DialogDescription>
+        </DialogHeader>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No changes to undo</p>
+        ) : (
+          <ScrollArea className="h-[50vh]">
+            <div className="space-y-2">
+              {visible.map((entry) => (
+                <div key={entry.id} className="p-2 border rounded-lg text-xs space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="capitalize">{entry.action === "delete" ? "Deleted" : "Updated"}</span>
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {entry.kind}
+                      </Badge>
+                      <span className="font-mono font-medium truncate">{entry.name}</span>
+                      {!repository && (
+                        <span className="text-muted-foreground truncate">
+                          {[entry.repository, entry.environment].filter(Boolean).join(" / ") || "Organization"}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+                      {entry.restoredAt ? (
+                        <Badge variant="secondary" className="text-xs">
+                          Restored
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-xs h-7 bg-transparent"
+                          disabled={restoringId === entry.id}
+                          onClick={() => (entry.kind === "secret" ? setSecretEntryId(entry.id) : restore(entry))}
+                        >
+                          {restoringId === entry.id ? "Restoring..." : "Restore"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {entry.kind === "variable" && (
+                    <p className="font-mono text-muted-foreground truncate" title={entry.previousValue}>
+                      Previous value: {entry.previousValue}
+                    </p>
+                  )}
+                  {secretEntryId === entry.id && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="password"
+                        placeholder="New secret value"
+                        value={secretValue}
+                        onChange={(e) => setSecretValue(e.target.value)}
+                        className="h-7 text-xs"
+                      />
+                      <Button
+                        size="sm"
+                        className="text-xs h-7"
+                        disabled={!secretValue.trim() || restoringId === entry.id}
+                        onClick={() => restore(entry, secretValue)}
+                      >
+                        Recreate
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-xs h-7"
+                        onClick={() => {
+                          setSecretEntryId("")
+                          setSecretValue("")
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
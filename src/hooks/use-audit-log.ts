@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { getAuditEntries, subscribeAuditLog, type AuditEntry } from "@/lib/audit-log"
+
+export function useAuditLog(): AuditEntry[] {
+  const [entries, setEntries] = useState<AuditEntry[]>(getAuditEntries)
+
+  useEffect(() => {
+    setEntries(getAuditEntries())
+    return subscribeAuditLog(setEntries)
+  }, [])
+
+  return entries
+}
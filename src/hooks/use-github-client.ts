@@ -0,0 +1,36 @@
+import { useEffect, useMemo, useState } from "react"
+import { createGitHubClient } from "@/lib/github-client"
+import { appendAuditEntry } from "@/lib/audit-log"
+import { noteWriteOutcome } from "@/lib/token-capabilities"
+import { getRequestScheduler, type RateLimitState } from "@/lib/request-scheduler"
+
+export function useGitHubClient(token: string) {
+  return useMemo(
+    () =>
+      createGitHubClient({
+        token,
+        transport: getRequestScheduler(token).transport,
+        onWrite: (event) => {
+          appendAuditEntry(event)
+          noteWriteOutcome(token, event)
+        },
+      }),
+    [token],
+  )
+}
+
+export function useRateLimit(token: string) {
+  const [rateLimit, setRateLimit] = useState<RateLimitState | null>(null)
+
+  useEffect(() => {
+    if (!token) {
+      setRateLimit(null)
+      return
+    }
+    const scheduler = getRequestScheduler(token)
+    setRateLimit(scheduler.getRateLimit())
+    return scheduler.subscribe(setRateLimit)
+  }, [token])
+
+  return rateLimit
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react"
+import { describeError } from "@/lib/github-client"
+import { TOKEN_REFRESH_MARGIN_MS, type GitHubAppAuth } from "@/lib/github-app-auth"
+import { moveRequestScheduler } from "@/lib/request-scheduler"
+
+// Retry delay after a failed refresh, while the previous token may still be valid
+const RETRY_DELAY_MS = 30_000
+
+// The last token seen per installation, so a rotated token takes over its scheduler
+const lastTokens = new Map<number, string>()
+
+// The current access token for an installation, replaced shortly before it expires.
+// Empty until the first token has been fetched.
+export function useInstallationToken(
+  auth: GitHubAppAuth | null,
+  installationId: number | null,
+  onError?: (message: string) => void,
+) {
+  const [token, setToken] = useState("")
+
+  useEffect(() => {
+    setToken("")
+    if (!auth || installationId === null) {
+      return
+    }
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const refresh = async () => {
+      try {
+        const current = await auth.getInstallationToken(installationId)
+        if (cancelled) {
+          return
+        }
+        const previous = lastTokens.get(installationId)
+        if (previous) {
+          moveRequestScheduler(previous, current.token)
+        }
+        lastTokens.set(installationId, current.token)
+        setToken(current.token)
+        // The token is still reused until it is within the margin, so wake up just after that point
+        timer = setTimeout(refresh, Math.max(0, current.expiresAt - TOKEN_REFRESH_MARGIN_MS - Date.now()) + 1000)
+      } catch (error) {
+        if (cancelled) {
+          return
+        }
+        console.error("Error fetching installation token:", error)
+        onError?.(describeError(error))
+        timer = setTimeout(refresh, RETRY_DELAY_MS)
+      }
+    }
+
+    refresh()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [auth, installationId])
+
+  return token
+}
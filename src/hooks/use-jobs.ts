@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react"
+import { getJobs, subscribeJobs, type Job } from "@/lib/job-engine"
+
+export function useJobs(): Job[] {
+  const [jobs, setJobs] = useState<Job[]>(getJobs)
+
+  useEffect(() => {
+    setJobs(getJobs())
+    return subscribeJobs(setJobs)
+  }, [])
+
+  return jobs
+}
+
+export function useJob(id: string | null | undefined): Job | undefined {
+  const jobs = useJobs()
+  return id ? jobs.find((job) => job.id === id) : undefined
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react"
+import { getTokenCapabilities, subscribeTokenCapabilities, type TokenCapabilities } from "@/lib/token-capabilities"
+
+// Null until the token's scopes have been read
+export function useTokenCapabilities(token: string): TokenCapabilities | null {
+  const [capabilities, setCapabilities] = useState<TokenCapabilities | null>(() => getTokenCapabilities(token))
+
+  useEffect(() => {
+    setCapabilities(getTokenCapabilities(token))
+    return subscribeTokenCapabilities(token, setCapabilities)
+  }, [token])
+
+  return capabilities
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+import { getUndoEntries, subscribeUndoHistory, type UndoEntry } from "@/lib/undo-history"
+
+export function useUndoHistory(): UndoEntry[] {
+  const [entries, setEntries] = useState<UndoEntry[]>(getUndoEntries)
+
+  useEffect(() => {
+    setEntries(getUndoEntries())
+    return subscribeUndoHistory(setEntries)
+  }, [])
+
+  return entries
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react"
+
+interface VirtualGridOptions {
+  rowCount: number
+  rowHeight: number
+  columnCount: number
+  // Columns grow to fill the viewport but never shrink below this
+  minColumnWidth: number
+  // Space taken by the sticky header row and the sticky leading columns
+  headerHeight: number
+  leadingWidth: number
+  // Extra rows and columns rendered beyond each edge to hide blank space while scrolling
+  overscan?: number
+}
+
+export interface VirtualRange {
+  start: number
+  // Exclusive
+  end: number
+}
+
+// Windowing for a scrollable grid with fixed-size cells: only the rows and columns
+// intersecting the viewport (plus overscan) need to be rendered.
+export function useVirtualGrid({
+  rowCount,
+  rowHeight,
+  columnCount,
+  minColumnWidth,
+  headerHeight,
+  leadingWidth,
+  overscan = 3,
+}: VirtualGridOptions) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [viewport, setViewport] = useState({ scrollTop: 0, scrollLeft: 0, width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) {
+      return
+    }
+
+    const measure = () =>
+      setViewport({
+        scrollTop: element.scrollTop,
+        scrollLeft: element.scrollLeft,
+        width: element.clientWidth,
+        height: element.clientHeight,
+      })
+
+    measure()
+    element.addEventListener("scroll", measure, { passive: true })
+    const observer = new ResizeObserver(measure)
+    observer.observe(element)
+    return () => {
+      element.removeEventListener("scroll", measure)
+      observer.disconnect()
+    }
+  }, [])
+
+  const columnWidth =
+    columnCount > 0
+      ? Math.max(minColumnWidth, Math.floor((viewport.width - leadingWidth) / columnCount))
+      : minColumnWidth
+
+  const range = (offset: number, visibleSize: number, size: number, count: number): VirtualRange => ({
+    start: Math.max(0, Math.floor(offset / size) - overscan),
+    end: Math.min(count, Math.ceil((offset + Math.max(0, visibleSize)) / size) + overscan),
+  })
+
+  return {
+    ref,
+    columnWidth,
+    rows: range(viewport.scrollTop, viewport.height - headerHeight, rowHeight, rowCount),
+    columns: range(viewport.scrollLeft, viewport.width - leadingWidth, columnWidth, columnCount),
+    totalWidth: leadingWidth + columnCount * columnWidth,
+    totalHeight: headerHeight + rowCount * rowHeight,
+  }
+}
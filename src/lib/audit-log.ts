@@ -0,0 +1,120 @@
+import type { WriteEvent } from "@/lib/github-client"
+
+// Append-only record of every write made through the app, kept in localStorage. Entries
+// hold names and locations only; the client never passes secret or variable values here.
+
+export interface AuditEntry extends WriteEvent {
+  id: string
+  // Epoch milliseconds
+  timestamp: number
+}
+
+type AuditListener = (entries: AuditEntry[]) => void
+
+const STORAGE_KEY = "auditLog.entries"
+// Oldest entries are dropped beyond this to stay within the storage quota
+const MAX_ENTRIES = 5000
+
+const listeners = new Set<AuditListener>()
+let entries: AuditEntry[] | null = null
+
+function load(): AuditEntry[] {
+  if (entries === null) {
+    try {
+      entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]") as AuditEntry[]
+    } catch {
+      entries = []
+    }
+  }
+  return entries
+}
+
+export function appendAuditEntry(event: WriteEvent) {
+  const entry: AuditEntry = {
+    ...event,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+  }
+  entries = [...load(), entry].slice(-MAX_ENTRIES)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch (error) {
+    console.error("Failed to persist audit log:", error)
+  }
+  listeners.forEach((listener) => listener(entries!))
+}
+
+// Oldest first
+export function getAuditEntries(): AuditEntry[] {
+  return load()
+}
+
+export function subscribeAuditLog(listener: AuditListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export interface AuditFilter {
+  query: string
+  organization: string
+  objectType: string
+  outcome: string
+}
+
+// Select-style fields use "all" to mean "no filter"
+export const DEFAULT_AUDIT_FILTER: AuditFilter = {
+  query: "",
+  organization: "all",
+  objectType: "all",
+  outcome: "all",
+}
+
+export function filterAuditEntries(all: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const query = filter.query.trim().toLowerCase()
+  return all.filter(
+    (entry) =>
+      (filter.organization === "all" || entry.owner === filter.organization) &&
+      (filter.objectType === "all" || entry.objectType === filter.objectType) &&
+      (filter.outcome === "all" || entry.outcome === filter.outcome) &&
+      (!query ||
+        [entry.name, entry.repository, entry.environment, entry.action]
+          .filter(Boolean)
+          .some((field) => field!.toLowerCase().includes(query))),
+  )
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  "timestamp",
+  "owner",
+  "repository",
+  "environment",
+  "objectType",
+  "name",
+  "action",
+  "outcome",
+  "error",
+]
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? "" : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function auditEntriesToCsv(list: AuditEntry[]): string {
+  const rows = list.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      csvField(column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column]),
+    ).join(","),
+  )
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
+
+export function auditEntriesToJson(list: AuditEntry[]): string {
+  return JSON.stringify(
+    list.map(({ id: _id, ...entry }) => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })),
+    null,
+    2,
+  )
+}
@@ -0,0 +1,140 @@
+import { isConflictError, isNotFoundError, type GitHubClient } from "@/lib/github-client"
+import type { ActionsScope } from "@/lib/github-types"
+import type { BulkItemKind } from "@/lib/bulk-probe"
+import { recordUndo, snapshotSecretDeletion, snapshotVariable } from "@/lib/undo-history"
+
+// What to do when a variable with the same name already exists at a target
+export type ExistingVariablePolicy = "overwrite" | "skip" | "fail"
+
+export const EXISTING_VARIABLE_POLICIES: Record<ExistingVariablePolicy, string> = {
+  overwrite: "Overwrite existing",
+  skip: "Skip existing",
+  fail: "Fail on existing",
+}
+
+export type WriteOutcome = "created" | "updated" | "skipped" | "deleted" | "renamed"
+
+export class VariableExistsError extends Error {
+  constructor(name: string) {
+    super(`Variable ${name} already exists`)
+    this.name = "VariableExistsError"
+  }
+}
+
+// Creates the variable, or applies the policy when it already exists. Looking it up first
+// keeps an expected 409 out of the audit log; a 409 from a variable created in between is
+// still handled. Overwritten values are recorded in the undo history once the update succeeded.
+export async function upsertVariable(
+  client: GitHubClient,
+  scope: ActionsScope,
+  name: string,
+  value: string,
+  policy: ExistingVariablePolicy,
+): Promise<WriteOutcome> {
+  let existing = await client.getVariable(scope, name)
+  if (!existing) {
+    try {
+      await client.createVariable(scope, name, value)
+      return "created"
+    } catch (error) {
+      if (!isConflictError(error)) {
+        throw error
+      }
+    }
+  }
+
+  if (policy === "skip") {
+    return "skipped"
+  }
+  if (policy === "fail") {
+    throw new VariableExistsError(name)
+  }
+  existing ??= await client.getVariable(scope, name)
+  const snapshot = existing && (await snapshotVariable(client, scope, existing, "update"))
+  await client.updateVariable(scope, name, value)
+  if (snapshot) {
+    recordUndo(snapshot)
+  }
+  return "updated"
+}
+
+export class NameTakenError extends Error {
+  constructor(name: string) {
+    super(`${name} already exists`)
+    this.name = "NameTakenError"
+  }
+}
+
+// Resolves to "skipped" when there is nothing to delete; otherwise the deletion is recorded
+// in the undo history
+export async function deleteItem(
+  client: GitHubClient,
+  scope: ActionsScope,
+  kind: BulkItemKind,
+  name: string,
+): Promise<WriteOutcome> {
+  try {
+    if (kind === "secret") {
+      const secret = await client.getSecret(scope, name)
+      if (!secret) {
+        return "skipped"
+      }
+      const snapshot = await snapshotSecretDeletion(client, scope, secret)
+      await client.deleteSecret(scope, name)
+      recordUndo(snapshot)
+    } else {
+      const variable = await client.getVariable(scope, name)
+      if (!variable) {
+        return "skipped"
+      }
+      const snapshot = await snapshotVariable(client, scope, variable, "delete")
+      await client.deleteVariable(scope, name)
+      recordUndo(snapshot)
+    }
+    return "deleted"
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return "skipped"
+    }
+    throw error
+  }
+}
+
+// GitHub has no rename, so the value is written under the new name before the old one is
+// deleted. Variables keep their value; secret values cannot be read and must be supplied.
+export async function renameItem(
+  client: GitHubClient,
+  scope: ActionsScope,
+  kind: BulkItemKind,
+  from: string,
+  to: string,
+  secretValue?: string,
+): Promise<WriteOutcome> {
+  if (kind === "variable") {
+    const variable = await client.getVariable(scope, from)
+    if (!variable) {
+      return "skipped"
+    }
+    if (await client.getVariable(scope, to)) {
+      throw new NameTakenError(to)
+    }
+    const snapshot = await snapshotVariable(client, scope, variable, "delete")
+    await client.createVariable(scope, to, variable.value)
+    await client.deleteVariable(scope, from)
+    recordUndo(snapshot)
+    return "renamed"
+  }
+
+  const secret = await client.getSecret(scope, from)
+  if (!secret) {
+    return "skipped"
+  }
+  if (await client.getSecret(scope, to)) {
+    throw new NameTakenError(to)
+  }
+  const snapshot = await snapshotSecretDeletion(client, scope, secret)
+  await client.setSecret(scope, to, secretValue ?? "")
+  await client.deleteSecret(scope, from)
+  recordUndo(snapshot)
+  return "renamed"
+}
@@ -0,0 +1,57 @@
+import { describeError, type GitHubClient } from "@/lib/github-client"
+import { environmentScope } from "@/lib/github-types"
+
+export type BulkItemKind = "secret" | "variable"
+
+// What a bulk write would find at one repository/environment target
+export interface TargetProbe {
+  repo: string
+  environment: string
+  environmentExists: boolean
+  // Whether a secret or variable with the name is already there
+  exists: boolean
+  // Variables only; secret values cannot be read
+  currentValue?: string
+  error?: string
+}
+
+// Read-only: never creates the environment
+export async function probeTarget(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  environment: string,
+  kind: BulkItemKind,
+  name: string,
+): Promise<TargetProbe> {
+  const probe: TargetProbe = { repo, environment, environmentExists: false, exists: false }
+  try {
+    if (!(await client.getEnvironment(owner, repo, environment))) {
+      return probe
+    }
+    probe.environmentExists = true
+
+    const scope = environmentScope(owner, repo, environment)
+    if (kind === "secret") {
+      probe.exists = !!(await client.getSecret(scope, name))
+    } else {
+      const variable = await client.getVariable(scope, name)
+      probe.exists = !!variable
+      probe.currentValue = variable?.value
+    }
+  } catch (error) {
+    probe.error = describeError(error)
+  }
+  return probe
+}
+
+export function summarizeProbes(probes: TargetProbe[], kind: BulkItemKind, value: string) {
+  return {
+    environmentsToCreate: probes.filter((p) => !p.error && !p.environmentExists).length,
+    // Secrets that exist are always replaced, since their values cannot be compared
+    overwritten: probes.filter((p) => p.exists && (kind === "secret" || p.currentValue !== value)).length,
+    unchanged: probes.filter((p) => p.exists && kind === "variable" && p.currentValue === value).length,
+    created: probes.filter((p) => !p.error && !p.exists).length,
+    errors: probes.filter((p) => p.error).length,
+  }
+}
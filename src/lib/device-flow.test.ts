@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DeviceFlowError, pollForAccessToken, requestDeviceCode, type DeviceCode } from "@/lib/device-flow"
+import type { GitHubTransport } from "@/lib/github-client"
+
+const OPTIONS = { clientId: "client", scopes: "repo", baseUrl: "https://github.test" }
+
+const CODE: DeviceCode = {
+  device_code: "device",
+  user_code: "ABCD-1234",
+  verification_uri: "https://github.test/login/device",
+  expires_in: 60,
+  interval: 5,
+}
+
+// Answers every request with the next body and records when it was asked, in seconds since the start
+function stubTransport(bodies: object[]) {
+  const start = Date.now()
+  const times: number[] = []
+  const transport: GitHubTransport = async () => {
+    times.push((Date.now() - start) / 1000)
+    return new Response(JSON.stringify(bodies.length > 1 ? bodies.shift() : bodies[0]), { status: 200 })
+  }
+  return { times, transport }
+}
+
+describe("requestDeviceCode", () => {
+  it("throws OAuth errors returned with a 200", async () => {
+    const { transport } = stubTransport([{ error: "device_flow_disabled", error_description: "Device flow is off" }])
+
+    await expect(requestDeviceCode({ ...OPTIONS, transport })).rejects.toMatchObject({
+      code: "device_flow_disabled",
+      message: "Device flow is off",
+    })
+  })
+})
+
+describe("pollForAccessToken", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("waits five seconds longer after every slow_down", async () => {
+    const { times, transport } = stubTransport([
+      { error: "authorization_pending" },
+      { error: "slow_down" },
+      { error: "slow_down" },
+      { access_token: "gho_token", token_type: "bearer", scope: "repo,read:org" },
+    ])
+
+    const result = pollForAccessToken({ ...OPTIONS, transport }, CODE)
+    await vi.advanceTimersByTimeAsync(60_000)
+
+    await expect(result).resolves.toEqual({ accessToken: "gho_token", scopes: ["repo", "read:org"] })
+    expect(times).toEqual([5, 10, 20, 35])
+  })
+
+  it("rejects with expired_token once the code runs out", async () => {
+    const { times, transport } = stubTransport([{ error: "authorization_pending" }])
+
+    const result = pollForAccessToken({ ...OPTIONS, transport }, { ...CODE, expires_in: 12 })
+    const assertion = expect(result).rejects.toMatchObject({ code: "expired_token" })
+    await vi.advanceTimersByTimeAsync(20_000)
+
+    await assertion
+    expect(times).toEqual([5, 10, 15])
+  })
+
+  it("stops on access_denied", async () => {
+    const { transport } = stubTransport([{ error: "access_denied", error_description: "The user said no" }])
+
+    const result = pollForAccessToken({ ...OPTIONS, transport }, CODE)
+    const assertion = expect(result).rejects.toBeInstanceOf(DeviceFlowError)
+    await vi.advanceTimersByTimeAsync(5_000)
+
+    await assertion
+  })
+
+  it("rejects with cancelled when the signal aborts", async () => {
+    const { times, transport } = stubTransport([{ error: "authorization_pending" }])
+    const controller = new AbortController()
+
+    const result = pollForAccessToken({ ...OPTIONS, transport }, CODE, controller.signal)
+    const assertion = expect(result).rejects.toMatchObject({ code: "cancelled" })
+    controller.abort()
+
+    await assertion
+    expect(times).toEqual([])
+  })
+})
@@ -0,0 +1,152 @@
+import { getGitHubOAuthUrl } from "@/lib/github-api"
+import { describeError, GitHubNetworkError, type GitHubTransport } from "@/lib/github-client"
+
+// OAuth device flow: the app asks for a one-time user code, the user enters it on GitHub,
+// and the app polls until GitHub hands out an access token for the requested scopes.
+
+export interface DeviceFlowOptions {
+  clientId: string
+  // Space separated, e.g. "repo admin:org"
+  scopes: string
+  baseUrl?: string
+  transport?: GitHubTransport
+}
+
+export interface DeviceCode {
+  device_code: string
+  user_code: string
+  verification_uri: string
+  // Seconds
+  expires_in: number
+  interval: number
+}
+
+export interface DeviceFlowToken {
+  accessToken: string
+  // The scopes actually granted, which the user may have narrowed
+  scopes: string[]
+}
+
+export const DEFAULT_OAUTH_SCOPES = "repo admin:org"
+
+export function getDefaultOAuthClientId(): string {
+  return process.env.NEXT_PUBLIC_GITHUB_OAUTH_CLIENT_ID || ""
+}
+
+export function getDefaultOAuthScopes(): string {
+  return process.env.NEXT_PUBLIC_GITHUB_OAUTH_SCOPES || DEFAULT_OAUTH_SCOPES
+}
+
+// An OAuth error response, e.g. `expired_token` or `access_denied`
+export class DeviceFlowError extends Error {
+  readonly code: string
+
+  constructor(code: string, description?: string) {
+    super(description || code)
+    this.name = "DeviceFlowError"
+    this.code = code
+  }
+}
+
+interface AccessTokenResponse {
+  access_token: string
+  token_type: string
+  // Comma separated
+  scope?: string
+}
+
+interface OAuthErrorResponse {
+  error?: string
+  error_description?: string
+}
+
+// GitHub adds this many seconds to the interval every time it answers `slow_down`
+const SLOW_DOWN_SECONDS = 5
+
+async function post<T>(
+  { baseUrl = getGitHubOAuthUrl(), transport = fetch }: DeviceFlowOptions,
+  path: string,
+  body: Record<string, string>,
+): Promise<T> {
+  const url = `${baseUrl}${path}`
+  let response: Response
+  try {
+    response = await transport(url, {
+      method: "POST",
+      headers: { Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    throw new GitHubNetworkError(`POST ${url} failed: ${describeError(error)}`, error)
+  }
+
+  let data: (Partial<T> & OAuthErrorResponse) | undefined
+  try {
+    data = await response.json()
+  } catch {
+    data = undefined
+  }
+  // OAuth errors usually come back as 200 with an `error` field
+  if (data?.error) {
+    throw new DeviceFlowError(data.error, data.error_description)
+  }
+  if (!response.ok || !data) {
+    throw new DeviceFlowError("request_failed", `POST ${url} failed with HTTP ${response.status}`)
+  }
+  return data as T
+}
+
+export function requestDeviceCode(options: DeviceFlowOptions): Promise<DeviceCode> {
+  return post<DeviceCode>(options, "/login/device/code", { client_id: options.clientId, scope: options.scopes })
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DeviceFlowError("cancelled", "Sign-in was cancelled"))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        reject(new DeviceFlowError("cancelled", "Sign-in was cancelled"))
+      },
+      { once: true },
+    )
+  })
+}
+
+// Resolves once the user has authorized the code; rejects when it expires, is denied or `signal` aborts
+export async function pollForAccessToken(
+  options: DeviceFlowOptions,
+  code: DeviceCode,
+  signal?: AbortSignal,
+): Promise<DeviceFlowToken> {
+  const expiresAt = Date.now() + code.expires_in * 1000
+  let interval = code.interval
+
+  while (Date.now() < expiresAt) {
+    await delay(interval * 1000, signal)
+    try {
+      const data = await post<AccessTokenResponse>(options, "/login/oauth/access_token", {
+        client_id: options.clientId,
+        device_code: code.device_code,
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+      })
+      return { accessToken: data.access_token, scopes: (data.scope || "").split(/[\s,]+/).filter(Boolean) }
+    } catch (error) {
+      if (!(error instanceof DeviceFlowError)) {
+        throw error
+      }
+      if (error.code === "slow_down") {
+        interval += SLOW_DOWN_SECONDS
+      } else if (error.code !== "authorization_pending") {
+        throw error
+      }
+    }
+  }
+
+  throw new DeviceFlowError("expired_token", "The code expired before it was entered")
+}
@@ -0,0 +1,61 @@
+// Helpers for the consistency report: value drift between locations and names that look
+// like typos of each other.
+
+export interface NearDuplicate {
+  a: string
+  b: string
+  distance: number
+}
+
+// Names further apart than this are not reported, however short they are
+const MAX_TYPO_DISTANCE = 2
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// "API_KEY", "api-key" and "APIKEY" all normalize to the same name
+const normalizeName = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]/g, "")
+
+// Pairs of distinct names that differ only by separators or by a small edit. Short names
+// get a tighter threshold so that e.g. "DB_A" and "DB_B" are not flagged.
+export function findNearDuplicates(names: string[]): NearDuplicate[] {
+  const unique = Array.from(new Set(names)).sort()
+  const pairs: NearDuplicate[] = []
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const a = unique[i]
+      const b = unique[j]
+      if (normalizeName(a) === normalizeName(b)) {
+        pairs.push({ a, b, distance: 0 })
+        continue
+      }
+      const threshold = Math.min(MAX_TYPO_DISTANCE, Math.floor(Math.min(a.length, b.length) / 5))
+      if (threshold === 0 || Math.abs(a.length - b.length) > threshold) {
+        continue
+      }
+      const distance = editDistance(a, b)
+      if (distance <= threshold) {
+        pairs.push({ a, b, distance })
+      }
+    }
+  }
+  return pairs
+}
+
+// Distinct values with how many locations use each, most common first
+export function countValues(values: string[]): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>()
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { detectFormat, EnvFileError, parseEnvFile, serializeEnvFile } from "@/lib/env-file"
+
+const values = (text: string) => Object.fromEntries(parseEnvFile(text, "env").map((entry) => [entry.name, entry.value]))
+
+describe("parseEnvFile (.env)", () => {
+  it("skips comments and blank lines and strips inline comments from unquoted values", () => {
+    expect(values("# comment\n\nexport LOG_LEVEL=info # default\nURL=https://example.com/#anchor\n")).toEqual({
+      LOG_LEVEL: "info",
+      URL: "https://example.com/#anchor",
+    })
+  })
+
+  it("decodes escapes in double quotes in one pass", () => {
+    expect(values('GREETING="a\\nb\\tc \\"quoted\\""\nPATH_LIKE="C:\\\\new"')).toEqual({
+      GREETING: 'a\nb\tc "quoted"',
+      PATH_LIKE: "C:\\new",
+    })
+  })
+
+  it("keeps single-quoted values literal and ignores text after the closing quote", () => {
+    expect(values("RAW='a\\nb # not a comment' # comment")).toEqual({ RAW: "a\\nb # not a comment" })
+  })
+
+  it("reads quoted values that span several lines", () => {
+    expect(values('CERT="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1')).toEqual({
+      CERT: "-----BEGIN-----\nabc\n-----END-----",
+      NEXT: "1",
+    })
+  })
+
+  it("accepts CRLF line endings", () => {
+    expect(values("A=1\r\nB=two words\r\n")).toEqual({ A: "1", B: "two words" })
+  })
+
+  it("upper-cases names and lets later duplicates win", () => {
+    expect(values("api_url=one\nAPI_URL=two")).toEqual({ API_URL: "two" })
+  })
+
+  it("guesses secrets from their names", () => {
+    expect(parseEnvFile("DB_PASSWORD=x\nREGION=eu", "env").map((entry) => entry.kind)).toEqual(["secret", "variable"])
+  })
+
+  it("reports lines that are not KEY=value pairs and unclosed quotes", () => {
+    expect(() => parseEnvFile("A=1\nnot a pair", "env")).toThrow("Line 2 is not a KEY=value pair")
+    expect(() => parseEnvFile('A=1\nB="open\nstill open', "env")).toThrow(EnvFileError)
+  })
+})
+
+describe("serializeEnvFile (.env)", () => {
+  it("round-trips values that need quoting", () => {
+    const variables = {
+      PLAIN: "https://example.com/path",
+      SPACES: "two words",
+      QUOTES: 'say "hi"',
+      BACKSLASH: "C:\\new\\table",
+      MULTILINE: "line one\nline two",
+      CRLF: "line one\r\nline two\r\n",
+      HASH: "value # not a comment",
+      EMPTY: "",
+    }
+
+    const text = serializeEnvFile(variables, ["API_TOKEN"], "env")
+
+    expect(detectFormat(text)).toBe("env")
+    expect(values(text)).toEqual(variables)
+  })
+
+  it("lists secrets by name only", () => {
+    expect(serializeEnvFile({}, ["API_TOKEN"], "env")).toContain("# API_TOKEN=")
+  })
+})
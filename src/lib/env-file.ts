@@ -0,0 +1,191 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml"
+import { describeError } from "@/lib/github-client"
+
+export type EnvFileFormat = "env" | "json" | "yaml"
+
+export const ENV_FILE_FORMATS: Record<EnvFileFormat, { label: string; extension: string; mimeType: string }> = {
+  env: { label: ".env", extension: "env", mimeType: "text/plain" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  yaml: { label: "YAML", extension: "yml", mimeType: "application/yaml" },
+}
+
+export type EntryKind = "variable" | "secret"
+
+export interface ImportedEntry {
+  name: string
+  // Empty for secrets listed by name only (e.g. from an export)
+  value: string
+  kind: EntryKind
+}
+
+export class EnvFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EnvFileError"
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const ENV_LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/
+
+// Names that usually hold credentials default to secrets in flat files
+const SECRET_NAME_PATTERN = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_KEY|ACCESS_KEY/i
+
+export function guessKind(name: string): EntryKind {
+  return SECRET_NAME_PATTERN.test(name) ? "secret" : "variable"
+}
+
+export function detectFormat(text: string, fileName?: string): EnvFileFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase()
+  if (extension === "json") return "json"
+  if (extension === "yml" || extension === "yaml") return "yaml"
+  if (fileName?.includes(".env") || extension === "env") return "env"
+
+  const trimmed = text.trim()
+  if (trimmed.startsWith("{")) return "json"
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith("#"))
+  return lines.length > 0 && lines.every((line) => ENV_LINE_PATTERN.test(line)) ? "env" : "yaml"
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", '"': '"', "\\": "\\" }
+
+// Index of the quote closing a value that starts with one, or -1. Inside double quotes a
+// backslash escapes the next character.
+function closingQuoteIndex(value: string): number {
+  const quote = value[0]
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === "\\") {
+      i++
+    } else if (value[i] === quote) {
+      return i
+    }
+  }
+  return -1
+}
+
+function unquoteEnvValue(raw: string): string {
+  const value = raw.trim()
+  if (value.startsWith('"')) {
+    const end = closingQuoteIndex(value)
+    // One left-to-right pass, so an escaped backslash is never read as the start of another escape
+    return value.slice(1, end > 0 ? end : undefined).replace(/\\([\s\S])/g, (escape, char) => ESCAPES[char] ?? escape)
+  }
+  if (value.startsWith("'")) {
+    const end = closingQuoteIndex(value)
+    return value.slice(1, end > 0 ? end : undefined)
+  }
+  // Unquoted values end at an inline comment
+  return value.replace(/\s+#.*$/, "")
+}
+
+function parseDotEnv(text: string): ImportedEntry[] {
+  const entries: ImportedEntry[] = []
+  const lines = text.split(/\r?\n/)
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (!line.trim() || line.trim().startsWith("#")) continue
+    const match = line.match(ENV_LINE_PATTERN)
+    if (!match) {
+      throw new EnvFileError(`Line ${index + 1} is not a KEY=value pair`)
+    }
+
+    // A quoted value continues over the following lines until its closing quote
+    const start = index
+    let raw = match[2].trim()
+    while ((raw.startsWith('"') || raw.startsWith("'")) && closingQuoteIndex(raw) === -1) {
+      if (++index >= lines.length) {
+        throw new EnvFileError(`Line ${start + 1} has a quoted value that is never closed`)
+      }
+      raw += "\n" + lines[index]
+    }
+    entries.push({ name: match[1], value: unquoteEnvValue(raw), kind: guessKind(match[1]) })
+  }
+  return entries
+}
+
+function toStringValue(name: string, value: unknown): string {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return String(value)
+  }
+  if (value === null || value === undefined) {
+    return ""
+  }
+  throw new EnvFileError(`Value of "${name}" must be a string, number or boolean`)
+}
+
+function entriesFromMap(map: unknown, kind: EntryKind | undefined, section: string): ImportedEntry[] {
+  if (map === undefined || map === null) return []
+  // Secrets may be listed by name only, as exports write them
+  if (Array.isArray(map)) {
+    return map.map((name) => ({ name: toStringValue(section, name), value: "", kind: kind || "secret" }))
+  }
+  if (typeof map !== "object") {
+    throw new EnvFileError(`"${section}" must be a map of names to values`)
+  }
+  return Object.entries(map).map(([name, value]) => ({
+    name,
+    value: toStringValue(name, value),
+    kind: kind || guessKind(name),
+  }))
+}
+
+// Structured files either use `variables:` / `secrets:` sections, as exports do, or are a
+// flat map of names to values
+function parseStructured(text: string): ImportedEntry[] {
+  let raw: unknown
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    raw = parseYaml(text)
+  } catch (error) {
+    throw new EnvFileError(`Could not parse file: ${describeError(error)}`)
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new EnvFileError("File must contain a map of names to values")
+  }
+
+  const { variables, secrets, ...rest } = raw as Record<string, unknown>
+  if (variables !== undefined || secrets !== undefined) {
+    return [...entriesFromMap(variables, "variable", "variables"), ...entriesFromMap(secrets, "secret", "secrets")]
+  }
+  return entriesFromMap(rest, undefined, "(root)")
+}
+
+export function parseEnvFile(text: string, format: EnvFileFormat): ImportedEntry[] {
+  const entries = format === "env" ? parseDotEnv(text) : parseStructured(text)
+
+  const invalid = entries.find((entry) => !NAME_PATTERN.test(entry.name))
+  if (invalid) {
+    throw new EnvFileError(`"${invalid.name}" is not a valid secret or variable name`)
+  }
+
+  // Later duplicates win, as they would when sourcing a .env file
+  const byName = new Map<string, ImportedEntry>()
+  for (const entry of entries) {
+    byName.set(entry.name.toUpperCase(), { ...entry, name: entry.name.toUpperCase() })
+  }
+  return Array.from(byName.values())
+}
+
+function quoteEnvValue(value: string): string {
+  if (/^[A-Za-z0-9_./:@%+,-]*$/.test(value)) {
+    return value
+  }
+  // Carriage returns are escaped too, or CRLF line endings would be lost when the file is read back
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\r/g, "\\r")}"`
+}
+
+// Secret values cannot be read back from GitHub, so only their names are exported
+export function serializeEnvFile(variables: Record<string, string>, secretNames: string[], format: EnvFileFormat) {
+  if (format === "json") {
+    return JSON.stringify({ variables, secrets: secretNames }, null, 2) + "\n"
+  }
+  if (format === "yaml") {
+    return stringifyYaml({ variables, secrets: secretNames })
+  }
+
+  const lines = Object.entries(variables).map(([name, value]) => `${name}=${quoteEnvValue(value)}`)
+  if (secretNames.length > 0) {
+    lines.push("", "# Secrets (values are not readable from GitHub)", ...secretNames.map((name) => `# ${name}=`))
+  }
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,118 @@
+import type { GitHubClient } from "@/lib/github-client"
+import { environmentScope } from "@/lib/github-types"
+import {
+  applyProtection,
+  EMPTY_PROTECTION,
+  fetchProtection,
+  protectionEquals,
+  type ProtectionDraft,
+} from "@/lib/environment-protection"
+import type { JobTaskInput } from "@/lib/job-engine"
+import { applyValueChange, computePlan, fetchLiveState, planTasks, type PlanChange } from "@/lib/manifest"
+
+// Everything that is copied from the source environment
+export interface CloneSource {
+  repo: string
+  environment: string
+  variables: Record<string, string>
+  // Names only; values are placeholders or re-entered
+  secrets: string[]
+  protection: ProtectionDraft
+}
+
+export interface CloneTarget {
+  repo: string
+  environment: string
+}
+
+export interface CloneOptions {
+  // Re-write secrets that already exist in the target
+  overwriteSecrets: boolean
+  // Delete target secrets and variables the source does not have
+  prune: boolean
+}
+
+export interface ClonePlan extends CloneTarget {
+  // Null when the environment does not exist yet
+  currentProtection: ProtectionDraft | null
+  // An "environment" change means the protection rules are created or replaced
+  changes: PlanChange[]
+  // Set when the target's secrets and variables could not be read; nothing is planned for it
+  error?: string
+}
+
+export async function fetchCloneSource(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  environment: string,
+): Promise<CloneSource> {
+  const scope = environmentScope(owner, repo, environment)
+  const [protection, secrets, variables] = await Promise.all([
+    fetchProtection(client, owner, repo, environment),
+    client.listSecrets(scope),
+    client.listVariables(scope),
+  ])
+  return {
+    repo,
+    environment,
+    variables: Object.fromEntries(variables.map((variable) => [variable.name, variable.value])),
+    secrets: secrets.map((secret) => secret.name),
+    protection: protection || EMPTY_PROTECTION,
+  }
+}
+
+// Diffs every target against the source without writing anything
+export async function planClone(
+  client: GitHubClient,
+  owner: string,
+  source: CloneSource,
+  targets: CloneTarget[],
+  options: CloneOptions,
+): Promise<ClonePlan[]> {
+  const manifestTargets = targets.map((target) => ({
+    ...target,
+    variables: source.variables,
+    secrets: source.secrets,
+  }))
+  const [live, protections] = await Promise.all([
+    fetchLiveState(client, owner, manifestTargets),
+    Promise.all(targets.map((target) => fetchProtection(client, owner, target.repo, target.environment))),
+  ])
+
+  return targets.map((target, index) => {
+    const currentProtection = protections[index]
+    if (live[index].error) {
+      return { ...target, currentProtection, changes: [], error: live[index].error }
+    }
+    // computePlan already emits the environment creation for missing targets
+    const changes = computePlan([manifestTargets[index]], [live[index]], options.prune)
+
+    if (currentProtection && !protectionEquals(currentProtection, source.protection)) {
+      changes.unshift({ action: "update", kind: "environment", ...target, name: target.environment })
+    }
+    if (options.overwriteSecrets) {
+      const existing = new Set(live[index].secrets)
+      for (const name of source.secrets.filter((secret) => existing.has(secret))) {
+        changes.push({ action: "update", kind: "secret", ...target, name })
+      }
+    }
+
+    return { ...target, currentProtection, changes }
+  })
+}
+
+// Protection rules are applied first so new environments exist before values are written
+export function cloneTasks(
+  client: GitHubClient,
+  owner: string,
+  source: CloneSource,
+  plans: ClonePlan[],
+  secretValues: Record<string, string>,
+): JobTaskInput[] {
+  return planTasks(
+    plans.flatMap((plan) => plan.changes),
+    (change) => applyProtection(client, owner, change.repo, change.name, source.protection),
+    (change) => applyValueChange(client, owner, change, secretValues),
+  )
+}
@@ -0,0 +1,205 @@
+import { describeError, GitHubGraphQLError, isNotFoundError, type GitHubClient } from "@/lib/github-client"
+import type { Environment, ProtectionRule, Reviewer } from "@/lib/github-types"
+
+// Loads the environments of many repositories with one GraphQL query per batch instead of
+// one REST call per repository. Batches that GraphQL cannot answer, e.g. on Enterprise
+// Server versions without the environments connection, fall back to REST.
+
+// Keeps each query well under GitHub's node limit: repos × environments × rules × reviewers
+const REPOSITORIES_PER_QUERY = 25
+const ENVIRONMENTS_PER_PAGE = 50
+
+// Clients whose server has no GraphQL endpoint or does not know the environments schema,
+// so later loads go straight to REST instead of failing first every time
+const graphqlUnsupported = new WeakSet<GitHubClient>()
+
+// Schema validation codes returned by servers that do not know the environments connection
+const UNSUPPORTED_SCHEMA_CODES = ["undefinedField", "undefinedType", "argumentNotAccepted"]
+
+// Only a missing endpoint or schema rules GraphQL out for good; resource limits, timeouts
+// and server errors fall back to REST for the failing batch alone
+function isGraphQLUnavailable(error: unknown): boolean {
+  return (
+    isNotFoundError(error) ||
+    (error instanceof GitHubGraphQLError &&
+      error.errors.some((detail) => UNSUPPORTED_SCHEMA_CODES.includes(detail.extensions?.code ?? "")))
+  )
+}
+
+const ENVIRONMENT_FIELDS = `
+  nodes {
+    databaseId
+    name
+    protectionRules(first: 10) {
+      nodes {
+        databaseId
+        type
+        timeout
+        preventSelfReview
+        reviewers(first: 6) {
+          nodes {
+            __typename
+            ... on User { databaseId login }
+            ... on Team { databaseId slug }
+          }
+        }
+      }
+    }
+  }
+  pageInfo { hasNextPage endCursor }`
+
+interface GraphQLReviewer {
+  __typename: "User" | "Team"
+  databaseId: number
+  login?: string
+  slug?: string
+}
+
+interface GraphQLEnvironment {
+  databaseId: number
+  name: string
+  protectionRules: {
+    nodes: Array<{
+      databaseId: number
+      type: "REQUIRED_REVIEWERS" | "WAIT_TIMER" | "BRANCH_POLICY"
+      timeout: number
+      preventSelfReview?: boolean | null
+      reviewers: { nodes: GraphQLReviewer[] }
+    }>
+  }
+}
+
+interface GraphQLEnvironmentConnection {
+  nodes: GraphQLEnvironment[]
+  pageInfo: { hasNextPage: boolean; endCursor: string | null }
+}
+
+type BatchResponse = Record<string, { environments: GraphQLEnvironmentConnection } | null>
+
+// Maps to the REST shape. GraphQL does not expose the deployment branch policy, so it is
+// left undefined; the rule list still says whether one exists.
+function toEnvironment(node: GraphQLEnvironment): Environment {
+  const protection_rules = node.protectionRules.nodes.map((rule): ProtectionRule => {
+    if (rule.type === "REQUIRED_REVIEWERS") {
+      return {
+        id: rule.databaseId,
+        type: "required_reviewers",
+        prevent_self_review: !!rule.preventSelfReview,
+        reviewers: rule.reviewers.nodes.map((reviewer): Reviewer => ({
+          type: reviewer.__typename,
+          reviewer: { id: reviewer.databaseId, login: reviewer.login, slug: reviewer.slug },
+        })),
+      }
+    }
+    if (rule.type === "WAIT_TIMER") {
+      return { id: rule.databaseId, type: "wait_timer", wait_timer: rule.timeout }
+    }
+    return { id: rule.databaseId, type: "branch_policy" }
+  })
+  return { id: node.databaseId, name: node.name, protection_rules }
+}
+
+function buildQuery(count: number): string {
+  const params = Array.from({ length: count }, (_, i) => `$name${i}: String!, $after${i}: String`).join(", ")
+  const fields = Array.from(
+    { length: count },
+    (_, i) =>
+      `repo${i}: repository(owner: $owner, name: $name${i}) {
+        environments(first: ${ENVIRONMENTS_PER_PAGE}, after: $after${i}) { ${ENVIRONMENT_FIELDS} }
+      }`,
+  ).join("\n")
+  return `query($owner: String!, ${params}) {\n${fields}\n}`
+}
+
+async function loadBatchWithGraphQL(
+  client: GitHubClient,
+  owner: string,
+  repos: string[],
+  onLoaded: (repo: string, environments: Environment[]) => void,
+) {
+  const collected = new Map<string, Environment[]>(repos.map((repo) => [repo, []]))
+  let pending = repos.map((repo) => ({ repo, after: null as string | null }))
+
+  // Repositories with more environments than one page are queried again with their cursor
+  while (pending.length > 0) {
+    const variables: Record<string, unknown> = { owner }
+    pending.forEach(({ repo, after }, i) => {
+      variables[`name${i}`] = repo
+      variables[`after${i}`] = after
+    })
+
+    const data = await client.graphql<BatchResponse>(buildQuery(pending.length), variables)
+
+    const next: typeof pending = []
+    pending.forEach(({ repo }, i) => {
+      // Null when the repository is not visible to the token
+      const connection = data[`repo${i}`]?.environments
+      collected.get(repo)!.push(...(connection?.nodes || []).map(toEnvironment))
+      if (connection?.pageInfo.hasNextPage && connection.pageInfo.endCursor) {
+        next.push({ repo, after: connection.pageInfo.endCursor })
+      } else {
+        onLoaded(repo, collected.get(repo)!)
+      }
+    })
+    pending = next
+  }
+}
+
+async function loadWithRest(
+  client: GitHubClient,
+  owner: string,
+  repos: string[],
+  onLoaded: (repo: string, environments: Environment[]) => void,
+) {
+  await Promise.all(
+    repos.map(async (repo) => {
+      try {
+        onLoaded(repo, await client.listEnvironments(owner, repo))
+      } catch (error) {
+        // A repository whose environments cannot be listed is shown without any
+        console.error(`Error fetching environments for ${repo}:`, error)
+        onLoaded(repo, [])
+      }
+    }),
+  )
+}
+
+// Calls `onLoaded` once per repository as soon as its environments are known
+export async function loadEnvironments(
+  client: GitHubClient,
+  owner: string,
+  repos: string[],
+  onLoaded: (repo: string, environments: Environment[]) => void,
+): Promise<void> {
+  const batches: string[][] = []
+  for (let i = 0; i < repos.length; i += REPOSITORIES_PER_QUERY) {
+    batches.push(repos.slice(i, i + REPOSITORIES_PER_QUERY))
+  }
+
+  await Promise.all(
+    batches.map(async (batch) => {
+      if (graphqlUnsupported.has(client)) {
+        return loadWithRest(client, owner, batch, onLoaded)
+      }
+
+      const loaded = new Set<string>()
+      try {
+        await loadBatchWithGraphQL(client, owner, batch, (repo, environments) => {
+          loaded.add(repo)
+          onLoaded(repo, environments)
+        })
+      } catch (error) {
+        if (isGraphQLUnavailable(error)) {
+          graphqlUnsupported.add(client)
+        }
+        console.warn(`GraphQL environment lookup failed, falling back to REST: ${describeError(error)}`)
+        await loadWithRest(
+          client,
+          owner,
+          batch.filter((repo) => !loaded.has(repo)),
+          onLoaded,
+        )
+      }
+    }),
+  )
+}
@@ -0,0 +1,36 @@
+// Environment names discovered per repository, keyed by repository name. RepositoryGrid fills
+// this from each repository's environment list so dialogs only touch environments that exist.
+export type EnvironmentsByRepository = Record<string, string[]>
+
+// Sorted union of environment names, optionally limited to some repositories
+export function environmentNames(environments: EnvironmentsByRepository, repositories?: string[]): string[] {
+  const names = new Set<string>()
+  Object.entries(environments).forEach(([repo, envs]) => {
+    if (!repositories || repositories.includes(repo)) {
+      envs.forEach((env) => names.add(env))
+    }
+  })
+  return Array.from(names).sort()
+}
+
+// How many repositories define each environment
+export function countRepositoriesPerEnvironment(environments: EnvironmentsByRepository): Record<string, number> {
+  const counts: Record<string, number> = {}
+  Object.values(environments).forEach((envs) => envs.forEach((env) => (counts[env] = (counts[env] || 0) + 1)))
+  return counts
+}
+
+export function hasEnvironment(environments: EnvironmentsByRepository, repo: string, env: string): boolean {
+  return (environments[repo] || []).includes(env)
+}
+
+// Repository/environment pairs from the selection that actually exist
+export function existingTargets(
+  environments: EnvironmentsByRepository,
+  repositories: string[],
+  envNames: string[],
+): Array<{ repo: string; env: string }> {
+  return repositories.flatMap((repo) =>
+    envNames.filter((env) => hasEnvironment(environments, repo, env)).map((env) => ({ repo, env })),
+  )
+}
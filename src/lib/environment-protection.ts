@@ -0,0 +1,179 @@
+import type { GitHubClient } from "@/lib/github-client"
+import type { DeploymentBranchPolicyPattern, Environment, EnvironmentSettings, ReviewerType } from "@/lib/github-types"
+
+// "all" = any branch, "protected" = protected branches only, "custom" = name patterns
+export type BranchPolicyMode = "all" | "protected" | "custom"
+
+export type PatternType = "branch" | "tag"
+
+export interface ReviewerEntry {
+  type: ReviewerType
+  id: number
+  // Login or team slug, for display
+  name: string
+}
+
+export interface PatternEntry {
+  name: string
+  type: PatternType
+}
+
+// Editable form of an environment's protection rules
+export interface ProtectionDraft {
+  reviewers: ReviewerEntry[]
+  // Minutes
+  waitTimer: number
+  preventSelfReview: boolean
+  branchPolicy: BranchPolicyMode
+  patterns: PatternEntry[]
+}
+
+export const MAX_REVIEWERS = 6
+export const MAX_WAIT_TIMER = 43200
+
+export const EMPTY_PROTECTION: ProtectionDraft = {
+  reviewers: [],
+  waitTimer: 0,
+  preventSelfReview: false,
+  branchPolicy: "all",
+  patterns: [],
+}
+
+export function protectionFromEnvironment(
+  environment: Environment,
+  patterns: DeploymentBranchPolicyPattern[] = [],
+): ProtectionDraft {
+  const draft: ProtectionDraft = { ...EMPTY_PROTECTION, reviewers: [], patterns: [] }
+
+  for (const rule of environment.protection_rules || []) {
+    if (rule.type === "required_reviewers") {
+      draft.preventSelfReview = !!rule.prevent_self_review
+      draft.reviewers = rule.reviewers.map((reviewer) => ({
+        type: reviewer.type,
+        id: reviewer.reviewer.id,
+        name:
+          reviewer.reviewer.login || reviewer.reviewer.slug || reviewer.reviewer.name || String(reviewer.reviewer.id),
+      }))
+    } else if (rule.type === "wait_timer") {
+      draft.waitTimer = rule.wait_timer
+    }
+  }
+
+  const policy = environment.deployment_branch_policy
+  if (policy?.custom_branch_policies) {
+    draft.branchPolicy = "custom"
+    draft.patterns = patterns.map((pattern) => ({ name: pattern.name, type: pattern.type || "branch" }))
+  } else if (policy?.protected_branches) {
+    draft.branchPolicy = "protected"
+  }
+
+  return draft
+}
+
+// Reads an environment's rules and branch/tag patterns. Null when the environment does not exist.
+export async function fetchProtection(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  environment: string,
+): Promise<ProtectionDraft | null> {
+  const current = await client.getEnvironment(owner, repo, environment)
+  if (!current) {
+    return null
+  }
+  const patterns = current.deployment_branch_policy?.custom_branch_policies
+    ? await client.listDeploymentBranchPolicies(owner, repo, environment)
+    : []
+  return protectionFromEnvironment(current, patterns)
+}
+
+export function toEnvironmentSettings(draft: ProtectionDraft): EnvironmentSettings {
+  return {
+    wait_timer: draft.waitTimer,
+    prevent_self_review: draft.preventSelfReview,
+    reviewers: draft.reviewers.map(({ type, id }) => ({ type, id })),
+    deployment_branch_policy:
+      draft.branchPolicy === "all"
+        ? null
+        : {
+            protected_branches: draft.branchPolicy === "protected",
+            custom_branch_policies: draft.branchPolicy === "custom",
+          },
+  }
+}
+
+const patternKey = (pattern: { name: string; type?: PatternType }) => `${pattern.type || "branch"}:${pattern.name}`
+
+// Creates or updates the environment with the draft's rules and, for custom branch policies,
+// makes its branch/tag patterns match the draft exactly
+export async function applyProtection(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  environment: string,
+  draft: ProtectionDraft,
+): Promise<void> {
+  await client.createOrUpdateEnvironment(owner, repo, environment, toEnvironmentSettings(draft))
+
+  if (draft.branchPolicy !== "custom") {
+    return
+  }
+
+  const existing = await client.listDeploymentBranchPolicies(owner, repo, environment)
+  const wanted = new Set(draft.patterns.map(patternKey))
+  const present = new Set(existing.map(patternKey))
+
+  for (const pattern of existing) {
+    if (!wanted.has(patternKey(pattern))) {
+      await client.deleteDeploymentBranchPolicy(owner, repo, environment, pattern.id)
+    }
+  }
+  for (const pattern of draft.patterns) {
+    if (!present.has(patternKey(pattern))) {
+      await client.createDeploymentBranchPolicy(owner, repo, environment, pattern)
+    }
+  }
+}
+
+// Order-insensitive comparison of reviewers and patterns
+export function protectionEquals(a: ProtectionDraft, b: ProtectionDraft): boolean {
+  const normalize = (draft: ProtectionDraft) =>
+    JSON.stringify([
+      draft.waitTimer,
+      draft.reviewers.length > 0 && draft.preventSelfReview,
+      draft.branchPolicy,
+      draft.reviewers.map(({ type, id }) => `${type}:${id}`).sort(),
+      draft.branchPolicy === "custom" ? draft.patterns.map(patternKey).sort() : [],
+    ])
+  return normalize(a) === normalize(b)
+}
+
+export function describeProtectionDraft(draft: ProtectionDraft): string[] {
+  const summary: string[] = []
+  if (draft.reviewers.length > 0) {
+    summary.push(`${draft.reviewers.length} required reviewer${draft.reviewers.length === 1 ? "" : "s"}`)
+  }
+  if (draft.waitTimer > 0) {
+    summary.push(`${draft.waitTimer} min wait`)
+  }
+  if (draft.branchPolicy === "protected") {
+    summary.push("Protected branches")
+  } else if (draft.branchPolicy === "custom") {
+    summary.push(
+      draft.patterns.length > 0 ? `Branches: ${draft.patterns.map((p) => p.name).join(", ")}` : "Custom branches",
+    )
+  }
+  return summary
+}
+
+export function describeProtection(environment: Environment): string[] {
+  const summary = describeProtectionDraft(protectionFromEnvironment(environment))
+  // Environments loaded through GraphQL say that a branch policy exists but not which kind
+  if (
+    environment.deployment_branch_policy === undefined &&
+    environment.protection_rules.some((rule) => rule.type === "branch_policy")
+  ) {
+    summary.push("Branch policy")
+  }
+  return summary
+}
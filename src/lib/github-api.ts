@@ -8,6 +8,22 @@ export function getGitHubApiUrl(): string {
   return "https://api.github.com"
 }
 
+// Enterprise Server serves GraphQL from /api/graphql rather than under /api/v3
+export function getGitHubGraphQLUrl(): string {
+  const enterpriseUrl = process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_URL
+  if (enterpriseUrl) {
+    return `${enterpriseUrl.replace(/\/$/, "")}/api/graphql`
+  }
+  return "https://api.github.com/graphql"
+}
+
+// Host of the OAuth endpoints (/login/device/code, /login/oauth/access_token). GitHub does not
+// send CORS headers for them, so NEXT_PUBLIC_GITHUB_OAUTH_URL can point at a proxy or a local stub.
+export function getGitHubOAuthUrl(): string {
+  const oauthUrl = process.env.NEXT_PUBLIC_GITHUB_OAUTH_URL || process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_URL
+  return oauthUrl ? oauthUrl.replace(/\/$/, "") : "https://github.com"
+}
+
 export function getGitHubHeaders(token: string) {
   return {
     Authorization: `Bearer ${token}`,
@@ -0,0 +1,131 @@
+import sodium from "libsodium-wrappers"
+import { describe, expect, it } from "vitest"
+import { createGitHubClient, GitHubApiError, parseNextLink, type GitHubTransport } from "@/lib/github-client"
+
+const BASE_URL = "https://api.test"
+
+interface Call {
+  url: string
+  method: string
+}
+
+// Answers requests in order and records what was asked for
+function stubTransport(responses: Array<() => Response>) {
+  const calls: Call[] = []
+  const transport: GitHubTransport = async (url, init) => {
+    calls.push({ url, method: init.method || "GET" })
+    const next = responses.shift()
+    if (!next) {
+      throw new Error(`Unexpected request: ${init.method} ${url}`)
+    }
+    return next()
+  }
+  return { calls, transport }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return () =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } })
+}
+
+describe("parseNextLink", () => {
+  it("returns the next page and ignores the other relations", () => {
+    const header =
+      '<https://api.test/orgs/acme/repos?page=1>; rel="prev", <https://api.test/orgs/acme/repos?page=3>; rel="next", ' +
+      '<https://api.test/orgs/acme/repos?page=9>; rel="last"'
+    expect(parseNextLink(header)).toBe("https://api.test/orgs/acme/repos?page=3")
+  })
+
+  it("returns null on the last page", () => {
+    expect(parseNextLink('<https://api.test/orgs/acme/repos?page=1>; rel="first"')).toBeNull()
+    expect(parseNextLink(null)).toBeNull()
+  })
+})
+
+describe("paginate", () => {
+  it("follows Link headers until there is no next page", async () => {
+    const next = `${BASE_URL}/repos/acme/api/environments?per_page=100&page=2`
+    const { calls, transport } = stubTransport([
+      json({ total_count: 3, environments: [{ name: "dev" }, { name: "staging" }] }, 200, {
+        Link: `<${next}>; rel="next"`,
+      }),
+      json({ total_count: 3, environments: [{ name: "production" }] }),
+    ])
+    const client = createGitHubClient({ token: "t", baseUrl: BASE_URL, transport })
+    const pages: string[][] = []
+
+    const environments = await client.paginate<{ name: string }>(
+      "/repos/acme/api/environments",
+      (data) => data?.environments,
+      (page) => pages.push(page.map((environment) => environment.name)),
+    )
+
+    expect(environments.map((environment) => environment.name)).toEqual(["dev", "staging", "production"])
+    expect(pages).toEqual([["dev", "staging"], ["production"]])
+    expect(calls.map((call) => call.url)).toEqual([`${BASE_URL}/repos/acme/api/environments?per_page=100`, next])
+  })
+
+  it("adds per_page next to existing query parameters", async () => {
+    const { calls, transport } = stubTransport([json([])])
+    const client = createGitHubClient({ token: "t", baseUrl: BASE_URL, transport })
+
+    await client.paginate("/orgs/acme/repos?sort=updated", (data) => data)
+
+    expect(calls[0].url).toBe(`${BASE_URL}/orgs/acme/repos?sort=updated&per_page=100`)
+  })
+})
+
+describe("setSecret", () => {
+  const scope = { type: "repository", owner: "acme", repo: "api" } as const
+
+  const publicKey = async (keyId: string) => {
+    await sodium.ready
+    const { publicKey } = sodium.crypto_box_keypair()
+    return json({ key_id: keyId, key: sodium.to_base64(publicKey, sodium.base64_variants.ORIGINAL) })
+  }
+
+  it("fetches the current public key and retries once when GitHub answers 422", async () => {
+    const { calls, transport } = stubTransport([
+      await publicKey("old"),
+      json({ message: "Bad key" }, 422),
+      await publicKey("new"),
+      () => new Response(null, { status: 201 }),
+    ])
+    const client = createGitHubClient({ token: "t", baseUrl: BASE_URL, transport })
+
+    await client.setSecret(scope, "TOKEN", "value")
+
+    expect(calls.map((call) => `${call.method} ${call.url.replace(BASE_URL, "")}`)).toEqual([
+      "GET /repos/acme/api/actions/secrets/public-key",
+      "PUT /repos/acme/api/actions/secrets/TOKEN",
+      "GET /repos/acme/api/actions/secrets/public-key",
+      "PUT /repos/acme/api/actions/secrets/TOKEN",
+    ])
+  })
+
+  it("gives up after the retry fails too", async () => {
+    const { calls, transport } = stubTransport([
+      await publicKey("old"),
+      json({ message: "Bad key" }, 422),
+      await publicKey("new"),
+      json({ message: "Bad key" }, 422),
+    ])
+    const client = createGitHubClient({ token: "t", baseUrl: BASE_URL, transport })
+
+    await expect(client.setSecret(scope, "TOKEN", "value")).rejects.toMatchObject({ status: 422 })
+    expect(calls).toHaveLength(4)
+  })
+
+  it("reuses the cached key and does not retry other errors", async () => {
+    const { calls, transport } = stubTransport([
+      await publicKey("current"),
+      () => new Response(null, { status: 201 }),
+      json({ message: "Resource not accessible by integration" }, 403),
+    ])
+    const client = createGitHubClient({ token: "t", baseUrl: BASE_URL, transport })
+
+    await client.setSecret(scope, "FIRST", "value")
+    await expect(client.setSecret(scope, "SECOND", "value")).rejects.toBeInstanceOf(GitHubApiError)
+    expect(calls.filter((call) => call.url.endsWith("/public-key"))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,483 @@
+import { getGitHubApiUrl, getGitHubGraphQLUrl, getGitHubHeaders } from "@/lib/github-api"
+import { sealSecretValue } from "@/lib/secret-encryption"
+import type {
+  ActionsScope,
+  AppInstallation,
+  DeploymentBranchPolicyPattern,
+  Environment,
+  EnvironmentSettings,
+  InstallationAccessToken,
+  Organization,
+  Repository,
+  Secret,
+  SecretsPublicKey,
+  Variable,
+  VisibilitySettings,
+} from "@/lib/github-types"
+
+// Anything with the shape of `fetch`; tests swap in a stub that answers from fixtures
+export type GitHubTransport = (url: string, init: RequestInit) => Promise<Response>
+
+export type WriteObjectType = "secret" | "variable" | "environment" | "deployment-branch-policy" | "secret-access"
+
+// "set" is used where GitHub creates or replaces in one call and the app cannot tell which
+export type WriteAction = "create" | "update" | "set" | "delete"
+
+// One write attempted through the client, for auditing. Never carries secret or variable values.
+export interface WriteEvent {
+  owner: string
+  repository?: string
+  environment?: string
+  objectType: WriteObjectType
+  name: string
+  action: WriteAction
+  outcome: "success" | "failure"
+  error?: string
+  // HTTP status of a failed write, when GitHub answered
+  status?: number
+}
+
+export interface GitHubClientOptions {
+  token: string
+  baseUrl?: string
+  graphqlUrl?: string
+  transport?: GitHubTransport
+  // Called after every create, update and delete, whether it succeeded or not
+  onWrite?: (event: WriteEvent) => void
+}
+
+export class GitHubApiError extends Error {
+  readonly status: number
+  readonly method: string
+  readonly url: string
+
+  constructor(message: string, status: number, method: string, url: string) {
+    super(message)
+    this.name = "GitHubApiError"
+    this.status = status
+    this.method = method
+    this.url = url
+  }
+}
+
+// Thrown when the request never produced an HTTP response (offline, CORS, DNS...)
+export class GitHubNetworkError extends Error {
+  readonly cause: unknown
+
+  constructor(message: string, cause: unknown) {
+    super(message)
+    this.name = "GitHubNetworkError"
+    this.cause = cause
+  }
+}
+
+export interface GraphQLErrorDetail {
+  message: string
+  // e.g. RESOURCE_LIMITS_EXCEEDED, NOT_FOUND
+  type?: string
+  // Set for query validation errors, e.g. undefinedField
+  extensions?: { code?: string }
+}
+
+// A GraphQL response that carried errors and no data
+export class GitHubGraphQLError extends Error {
+  readonly errors: GraphQLErrorDetail[]
+
+  constructor(errors: GraphQLErrorDetail[]) {
+    super(errors.map((error) => error.message).join("; ") || "GraphQL request failed")
+    this.name = "GitHubGraphQLError"
+    this.errors = errors
+  }
+}
+
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof GitHubApiError && error.status === 404
+}
+
+// GitHub answers 401 for invalid, expired or revoked tokens
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof GitHubApiError && error.status === 401
+}
+
+// GitHub answers 409 when creating a variable that already exists
+export function isConflictError(error: unknown): boolean {
+  return error instanceof GitHubApiError && error.status === 409
+}
+
+// Human readable description suitable for a toast or a result row
+export function describeError(error: unknown): string {
+  if (error instanceof GitHubApiError) {
+    return `HTTP ${error.status}: ${error.message}`
+  }
+  if (error instanceof Error) {
+    return error.message
+  }
+  return "Unknown error"
+}
+
+interface RequestOptions {
+  method?: string
+  body?: unknown
+}
+
+// Called with each page as it arrives, plus everything collected so far, so lists can render progressively
+export type PageCallback<T> = (page: T[], loaded: T[]) => void
+
+// Extracts the `rel="next"` URL from a Link header, if there is one
+export function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) {
+    return null
+  }
+  for (const part of linkHeader.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/)
+    if (match && match[2].split(" ").includes("next")) {
+      return match[1]
+    }
+  }
+  return null
+}
+
+function withPerPage(path: string): string {
+  return path.includes("per_page=") ? path : `${path}${path.includes("?") ? "&" : "?"}per_page=100`
+}
+
+// Prefix under which a scope's `/secrets` and `/variables` collections live
+function scopePath(scope: ActionsScope): string {
+  switch (scope.type) {
+    case "organization":
+      return `/orgs/${scope.org}/actions`
+    case "repository":
+      return `/repos/${scope.owner}/${scope.repo}/actions`
+    case "environment":
+      return `/repos/${scope.owner}/${scope.repo}/environments/${encodeURIComponent(scope.environment)}`
+  }
+}
+
+export type OrganizationItemKind = "secrets" | "variables"
+
+function scopeLocation(scope: ActionsScope): Pick<WriteEvent, "owner" | "repository" | "environment"> {
+  switch (scope.type) {
+    case "organization":
+      return { owner: scope.org }
+    case "repository":
+      return { owner: scope.owner, repository: scope.repo }
+    case "environment":
+      return { owner: scope.owner, repository: scope.repo, environment: scope.environment }
+  }
+}
+
+export function createGitHubClient({
+  token,
+  baseUrl = getGitHubApiUrl(),
+  graphqlUrl = getGitHubGraphQLUrl(),
+  transport = fetch,
+  onWrite,
+}: GitHubClientOptions) {
+  const publicKeys = new Map<string, Promise<SecretsPublicKey>>()
+
+  // Runs a write and reports its outcome to `onWrite`
+  const audited = async <T>(event: Omit<WriteEvent, "outcome" | "error">, run: () => Promise<T>): Promise<T> => {
+    try {
+      const result = await run()
+      onWrite?.({ ...event, outcome: "success" })
+      return result
+    } catch (error) {
+      onWrite?.({
+        ...event,
+        outcome: "failure",
+        error: describeError(error),
+        status: error instanceof GitHubApiError ? error.status : undefined,
+      })
+      throw error
+    }
+  }
+
+  // Sends a request and returns the raw response, throwing for network failures and non-2xx statuses
+  const send = async (url: string, { method = "GET", body }: RequestOptions = {}): Promise<Response> => {
+    const headers: Record<string, string> = { ...getGitHubHeaders(token) }
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json"
+    }
+
+    let response: Response
+    try {
+      response = await transport(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+    } catch (error) {
+      throw new GitHubNetworkError(`${method} ${url} failed: ${describeError(error)}`, error)
+    }
+
+    if (!response.ok) {
+      let message = response.statusText || "Request failed"
+      try {
+        const data = await response.json()
+        if (data && typeof data.message === "string") {
+          message = data.message
+        }
+      } catch {
+        // Error bodies are not always JSON
+      }
+      throw new GitHubApiError(message, response.status, method, url)
+    }
+
+    return response
+  }
+
+  const readJson = async <T>(response: Response): Promise<T> => {
+    if (response.status === 204) {
+      return undefined as T
+    }
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+
+  const request = async <T>(path: string, options: RequestOptions = {}): Promise<T> =>
+    readJson<T>(await send(`${baseUrl}${path}`, options))
+
+  // Follows Link headers until the last page. `select` pulls the items out of wrapped
+  // responses such as `{ total_count, secrets: [...] }`.
+  const paginate = async <T>(
+    path: string,
+    select: (data: any) => T[] | undefined,
+    onPage?: PageCallback<T>,
+  ): Promise<T[]> => {
+    const loaded: T[] = []
+    let url: string | null = `${baseUrl}${withPerPage(path)}`
+
+    while (url) {
+      const response = await send(url)
+      const page = select(await readJson<unknown>(response)) || []
+      loaded.push(...page)
+      onPage?.(page, [...loaded])
+      url = parseNextLink(response.headers.get("link"))
+    }
+
+    return loaded
+  }
+
+  // Partial results are returned as-is; errors only throw when GitHub sent no data at all
+  const graphql = async <T>(query: string, variables: Record<string, unknown> = {}): Promise<T> => {
+    const response = await readJson<{ data?: T | null; errors?: GraphQLErrorDetail[] }>(
+      await send(graphqlUrl, { method: "POST", body: { query, variables } }),
+    )
+    if (!response?.data) {
+      throw new GitHubGraphQLError(response?.errors || [])
+    }
+    return response.data
+  }
+
+  const publicKeyPath = (scope: ActionsScope) => `${scopePath(scope)}/secrets/public-key`
+
+  const getSecretsPublicKey = (scope: ActionsScope): Promise<SecretsPublicKey> => {
+    const path = publicKeyPath(scope)
+    const cached = publicKeys.get(path)
+    if (cached) {
+      return cached
+    }
+
+    const pending = request<SecretsPublicKey>(path)
+    publicKeys.set(path, pending)
+    pending.catch(() => publicKeys.delete(path))
+    return pending
+  }
+
+  return {
+    request,
+    paginate,
+    graphql,
+
+    // Scopes of a classic or OAuth token; null for fine-grained and installation tokens,
+    // which GitHub answers without the header
+    getTokenScopes: async (): Promise<string[] | null> => {
+      const header = (await send(`${baseUrl}/rate_limit`)).headers.get("x-oauth-scopes")
+      return header === null
+        ? null
+        : header
+            .split(",")
+            .map((scope) => scope.trim())
+            .filter(Boolean)
+    },
+
+    listOrganizations: (onPage?: PageCallback<Organization>) =>
+      paginate<Organization>("/user/orgs", (data) => data, onPage),
+
+    // The two calls below authenticate as the GitHub App itself, with a JWT as the token
+    listAppInstallations: (onPage?: PageCallback<AppInstallation>) =>
+      paginate<AppInstallation>("/app/installations", (data) => data, onPage),
+
+    createInstallationAccessToken: (installationId: number) =>
+      request<InstallationAccessToken>(`/app/installations/${installationId}/access_tokens`, { method: "POST" }),
+
+    listRepositories: (org: string, onPage?: PageCallback<Repository>) =>
+      paginate<Repository>(`/orgs/${org}/repos?sort=updated`, (data) => data, onPage),
+
+    listEnvironments: (owner: string, repo: string, onPage?: PageCallback<Environment>) =>
+      paginate<Environment>(`/repos/${owner}/${repo}/environments`, (data) => data?.environments, onPage),
+
+    // Resolves to null when the environment does not exist
+    getEnvironment: async (owner: string, repo: string, environment: string) => {
+      try {
+        return await request<Environment>(`/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}`)
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return null
+        }
+        throw error
+      }
+    },
+
+    createOrUpdateEnvironment: (owner: string, repo: string, environment: string, settings: EnvironmentSettings = {}) =>
+      audited(
+        { owner, repository: repo, environment, objectType: "environment", name: environment, action: "set" },
+        () =>
+          request<Environment>(`/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}`, {
+            method: "PUT",
+            body: settings,
+          }),
+      ),
+
+    listDeploymentBranchPolicies: (owner: string, repo: string, environment: string) =>
+      paginate<DeploymentBranchPolicyPattern>(
+        `/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}/deployment-branch-policies`,
+        (data) => data?.branch_policies,
+      ),
+
+    createDeploymentBranchPolicy: (
+      owner: string,
+      repo: string,
+      environment: string,
+      pattern: Omit<DeploymentBranchPolicyPattern, "id">,
+    ) =>
+      audited(
+        {
+          owner,
+          repository: repo,
+          environment,
+          objectType: "deployment-branch-policy",
+          name: pattern.name,
+          action: "create",
+        },
+        () =>
+          request<DeploymentBranchPolicyPattern>(
+            `/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}/deployment-branch-policies`,
+            { method: "POST", body: pattern },
+          ),
+      ),
+
+    deleteDeploymentBranchPolicy: (owner: string, repo: string, environment: string, policyId: number) =>
+      audited(
+        {
+          owner,
+          repository: repo,
+          environment,
+          objectType: "deployment-branch-policy",
+          name: String(policyId),
+          action: "delete",
+        },
+        () =>
+          request<void>(
+            `/repos/${owner}/${repo}/environments/${encodeURIComponent(environment)}/deployment-branch-policies/${policyId}`,
+            { method: "DELETE" },
+          ),
+      ),
+
+    // Reviewer lookups, since environment settings reference users and teams by id
+    getUser: (login: string) => request<{ id: number; login: string }>(`/users/${login}`),
+
+    getTeam: (org: string, slug: string) =>
+      request<{ id: number; slug: string; name: string }>(`/orgs/${org}/teams/${slug}`),
+
+    getSecretsPublicKey,
+
+    listSecrets: (scope: ActionsScope, onPage?: PageCallback<Secret>) =>
+      paginate<Secret>(`${scopePath(scope)}/secrets`, (data) => data?.secrets, onPage),
+
+    // Resolves to null when the secret does not exist
+    getSecret: async (scope: ActionsScope, name: string) => {
+      try {
+        return await request<Secret>(`${scopePath(scope)}/secrets/${name}`)
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return null
+        }
+        throw error
+      }
+    },
+
+    // Encrypts `value` with the scope's public key before sending it. Organization secrets
+    // also require `settings`.
+    setSecret: (scope: ActionsScope, name: string, value: string, settings?: VisibilitySettings) =>
+      audited({ ...scopeLocation(scope), objectType: "secret", name, action: "set" }, async () => {
+        const put = async () => {
+          const encrypted = await sealSecretValue(value, await getSecretsPublicKey(scope))
+          await request<void>(`${scopePath(scope)}/secrets/${name}`, {
+            method: "PUT",
+            body: { ...encrypted, ...settings },
+          })
+        }
+        try {
+          await put()
+        } catch (error) {
+          // GitHub rejects values sealed with a rotated key; fetch the current key and try once more
+          if (!(error instanceof GitHubApiError && error.status === 422)) {
+            throw error
+          }
+          publicKeys.delete(publicKeyPath(scope))
+          await put()
+        }
+      }),
+
+    deleteSecret: (scope: ActionsScope, name: string) =>
+      audited({ ...scopeLocation(scope), objectType: "secret", name, action: "delete" }, () =>
+        request<void>(`${scopePath(scope)}/secrets/${name}`, { method: "DELETE" }),
+      ),
+
+    listVariables: (scope: ActionsScope, onPage?: PageCallback<Variable>) =>
+      paginate<Variable>(`${scopePath(scope)}/variables`, (data) => data?.variables, onPage),
+
+    // Resolves to null when the variable does not exist
+    getVariable: async (scope: ActionsScope, name: string) => {
+      try {
+        return await request<Variable>(`${scopePath(scope)}/variables/${name}`)
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return null
+        }
+        throw error
+      }
+    },
+
+    createVariable: (scope: ActionsScope, name: string, value: string, settings?: VisibilitySettings) =>
+      audited({ ...scopeLocation(scope), objectType: "variable", name, action: "create" }, () =>
+        request<void>(`${scopePath(scope)}/variables`, { method: "POST", body: { name, value, ...settings } }),
+      ),
+
+    updateVariable: (scope: ActionsScope, name: string, value: string, settings?: VisibilitySettings) =>
+      audited({ ...scopeLocation(scope), objectType: "variable", name, action: "update" }, () =>
+        request<void>(`${scopePath(scope)}/variables/${name}`, {
+          method: "PATCH",
+          body: { name, value, ...settings },
+        }),
+      ),
+
+    deleteVariable: (scope: ActionsScope, name: string) =>
+      audited({ ...scopeLocation(scope), objectType: "variable", name, action: "delete" }, () =>
+        request<void>(`${scopePath(scope)}/variables/${name}`, { method: "DELETE" }),
+      ),
+
+    // Changes who can use an organization secret without re-sending its value
+    setOrganizationSecretVisibility: (org: string, name: string, settings: VisibilitySettings) =>
+      audited({ owner: org, objectType: "secret-access", name, action: "update" }, () =>
+        request<void>(`/orgs/${org}/actions/secrets/${name}`, { method: "PUT", body: settings }),
+      ),
+
+    // Repositories that can use an organization secret or variable with `selected` visibility
+    listSelectedRepositories: (org: string, kind: OrganizationItemKind, name: string) =>
+      paginate<Repository>(`/orgs/${org}/actions/${kind}/${name}/repositories`, (data) => data?.repositories),
+  }
+}
+
+export type GitHubClient = ReturnType<typeof createGitHubClient>
@@ -0,0 +1,159 @@
+// Shapes of the GitHub REST resources used across the app
+
+export interface Organization {
+  id: number
+  login: string
+  avatar_url: string
+  description?: string
+}
+
+// A GitHub App installation, as listed by `/app/installations`
+export interface AppInstallation {
+  id: number
+  account: {
+    id: number
+    login: string
+    avatar_url: string
+    type: "Organization" | "User"
+  }
+}
+
+export interface InstallationAccessToken {
+  token: string
+  // ISO 8601
+  expires_at: string
+}
+
+export interface Repository {
+  id: number
+  name: string
+  full_name: string
+  description?: string
+  private: boolean
+  archived?: boolean
+  language?: string | null
+  topics?: string[]
+  default_branch: string
+  updated_at: string
+}
+
+export type ReviewerType = "User" | "Team"
+
+export interface Reviewer {
+  type: ReviewerType
+  reviewer: {
+    id: number
+    // `login` for users, `slug` for teams
+    login?: string
+    slug?: string
+    name?: string
+  }
+}
+
+export type ProtectionRule =
+  | { id: number; type: "required_reviewers"; prevent_self_review?: boolean; reviewers: Reviewer[] }
+  | { id: number; type: "wait_timer"; wait_timer: number }
+  | { id: number; type: "branch_policy" }
+
+// `null` on an environment means any branch can deploy
+export interface DeploymentBranchPolicy {
+  protected_branches: boolean
+  custom_branch_policies: boolean
+}
+
+export interface Environment {
+  id: number
+  name: string
+  protection_rules: ProtectionRule[]
+  deployment_branch_policy?: DeploymentBranchPolicy | null
+}
+
+// Body of `PUT /repos/{owner}/{repo}/environments/{name}`
+export interface EnvironmentSettings {
+  wait_timer?: number
+  prevent_self_review?: boolean
+  reviewers?: Array<{ type: ReviewerType; id: number }> | null
+  deployment_branch_policy?: DeploymentBranchPolicy | null
+}
+
+// A custom branch or tag name pattern allowed to deploy to an environment
+export interface DeploymentBranchPolicyPattern {
+  id: number
+  name: string
+  type?: "branch" | "tag"
+}
+
+// Which repositories can use an organization secret or variable
+export type Visibility = "all" | "private" | "selected"
+
+export interface Secret {
+  name: string
+  created_at: string
+  updated_at: string
+  // Only set for organization secrets
+  visibility?: Visibility
+  selected_repositories_url?: string
+}
+
+export interface Variable {
+  name: string
+  value: string
+  created_at: string
+  updated_at: string
+  // Only set for organization variables
+  visibility?: Visibility
+  selected_repositories_url?: string
+}
+
+// Access settings sent along with organization secret and variable writes
+export interface VisibilitySettings {
+  visibility: Visibility
+  selected_repository_ids?: number[]
+}
+
+export interface SecretsPublicKey {
+  key_id: string
+  key: string
+}
+
+// Where a secret or variable lives
+export interface EnvironmentScope {
+  type: "environment"
+  owner: string
+  repo: string
+  environment: string
+}
+
+export interface RepositoryScope {
+  type: "repository"
+  owner: string
+  repo: string
+}
+
+export interface OrganizationScope {
+  type: "organization"
+  org: string
+}
+
+export type ActionsScope = EnvironmentScope | RepositoryScope | OrganizationScope
+
+export function environmentScope(owner: string, repo: string, environment: string): EnvironmentScope {
+  return { type: "environment", owner, repo, environment }
+}
+
+export function repositoryScope(owner: string, repo: string): RepositoryScope {
+  return { type: "repository", owner, repo }
+}
+
+// Environment scope when an environment is given, otherwise the repository-wide scope
+export function repositoryOrEnvironmentScope(
+  owner: string,
+  repo: string,
+  environment?: string,
+): EnvironmentScope | RepositoryScope {
+  return environment ? environmentScope(owner, repo, environment) : repositoryScope(owner, repo)
+}
+
+export function organizationScope(org: string): OrganizationScope {
+  return { type: "organization", org }
+}
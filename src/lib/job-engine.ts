@@ -0,0 +1,223 @@
+import { describeError } from "@/lib/github-client"
+
+// Runs bulk work as jobs of independent tasks with bounded parallelism. Jobs live in a
+// module-level store so their progress and history outlive the dialog that started them.
+
+export type TaskStatus = "pending" | "running" | "succeeded" | "failed" | "cancelled"
+
+export type JobStatus = "running" | "paused" | "completed" | "cancelled"
+
+export interface JobTaskInput {
+  // Shown in result rows, e.g. "repo/production"
+  label: string
+  // Resolves to an optional outcome such as "created" or "skipped"; throws to fail the task
+  run: () => Promise<string | void>
+}
+
+export interface TaskState {
+  label: string
+  status: TaskStatus
+  outcome?: string
+  error?: string
+}
+
+export interface Job {
+  id: string
+  title: string
+  createdAt: number
+  finishedAt?: number
+  status: JobStatus
+  concurrency: number
+  tasks: TaskState[]
+}
+
+export interface JobOptions {
+  concurrency?: number
+  // Called every time the job stops running: on completion, cancellation, and after retries
+  onSettled?: (job: Job) => void
+}
+
+type JobListener = (jobs: Job[]) => void
+
+interface JobRuntime {
+  inputs: JobTaskInput[]
+  active: number
+  onSettled?: (job: Job) => void
+}
+
+const DEFAULT_CONCURRENCY = 4
+// Oldest finished jobs are dropped beyond this
+const MAX_HISTORY = 50
+
+let jobs: Job[] = []
+const runtimes = new Map<string, JobRuntime>()
+const listeners = new Set<JobListener>()
+let nextId = 1
+
+function notify() {
+  listeners.forEach((listener) => listener(jobs))
+}
+
+// Jobs are replaced rather than mutated so subscribers can compare by reference
+function updateJob(id: string, update: (job: Job) => Job) {
+  jobs = jobs.map((job) => (job.id === id ? update(job) : job))
+  notify()
+}
+
+function updateTask(id: string, index: number, changes: Partial<TaskState>) {
+  updateJob(id, (job) => ({
+    ...job,
+    tasks: job.tasks.map((task, i) => (i === index ? { ...task, ...changes } : task)),
+  }))
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.find((job) => job.id === id)
+}
+
+function settle(id: string) {
+  const runtime = runtimes.get(id)
+  const job = getJob(id)
+  if (!runtime || !job || job.finishedAt || runtime.active > 0) {
+    return
+  }
+  if (job.status === "running" && job.tasks.some((task) => task.status === "pending")) {
+    return
+  }
+  if (job.status === "paused") {
+    return
+  }
+
+  updateJob(id, (current) => ({
+    ...current,
+    status: current.status === "cancelled" ? "cancelled" : "completed",
+    finishedAt: Date.now(),
+  }))
+  runtime.onSettled?.(getJob(id)!)
+}
+
+// Starts pending tasks until the concurrency limit is reached
+function pump(id: string) {
+  const runtime = runtimes.get(id)
+  if (!runtime) {
+    return
+  }
+
+  while (getJob(id)?.status === "running" && runtime.active < getJob(id)!.concurrency) {
+    const index = getJob(id)!.tasks.findIndex((task) => task.status === "pending")
+    if (index === -1) {
+      break
+    }
+    runtime.active++
+    updateTask(id, index, { status: "running", outcome: undefined, error: undefined })
+
+    runtime.inputs[index]
+      .run()
+      .then(
+        (outcome) => updateTask(id, index, { status: "succeeded", outcome: outcome || undefined }),
+        (error) => updateTask(id, index, { status: "failed", error: describeError(error) }),
+      )
+      .finally(() => {
+        runtime.active--
+        pump(id)
+        settle(id)
+      })
+  }
+
+  settle(id)
+}
+
+export function startJob(title: string, tasks: JobTaskInput[], options: JobOptions = {}): string {
+  const id = `job-${nextId++}`
+  const job: Job = {
+    id,
+    title,
+    createdAt: Date.now(),
+    status: "running",
+    concurrency: Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY),
+    tasks: tasks.map((task) => ({ label: task.label, status: "pending" })),
+  }
+  runtimes.set(id, { inputs: tasks, active: 0, onSettled: options.onSettled })
+
+  const finished = jobs.filter((j) => j.status === "completed" || j.status === "cancelled")
+  const dropped = new Set(finished.slice(0, Math.max(0, jobs.length + 1 - MAX_HISTORY)).map((j) => j.id))
+  dropped.forEach((droppedId) => runtimes.delete(droppedId))
+  jobs = [...jobs.filter((j) => !dropped.has(j.id)), job]
+  notify()
+
+  pump(id)
+  return id
+}
+
+// Tasks already in flight finish; everything still pending is marked cancelled
+export function cancelJob(id: string) {
+  const job = getJob(id)
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    return
+  }
+  updateJob(id, (current) => ({
+    ...current,
+    status: "cancelled",
+    tasks: current.tasks.map((task) => (task.status === "pending" ? { ...task, status: "cancelled" } : task)),
+  }))
+  settle(id)
+}
+
+export function pauseJob(id: string) {
+  if (getJob(id)?.status === "running") {
+    updateJob(id, (current) => ({ ...current, status: "paused" }))
+  }
+}
+
+export function resumeJob(id: string) {
+  if (getJob(id)?.status === "paused") {
+    updateJob(id, (current) => ({ ...current, status: "running" }))
+    pump(id)
+  }
+}
+
+// Re-queues failed tasks (and ones cancelled before they ran) without touching successes
+export function retryFailed(id: string) {
+  const job = getJob(id)
+  if (!job || !runtimes.has(id) || job.status === "running" || job.status === "paused") {
+    return
+  }
+  updateJob(id, (current) => ({
+    ...current,
+    status: "running",
+    finishedAt: undefined,
+    tasks: current.tasks.map((task) =>
+      task.status === "failed" || task.status === "cancelled" ? { ...task, status: "pending", error: undefined } : task,
+    ),
+  }))
+  pump(id)
+}
+
+export function clearFinishedJobs() {
+  const finished = jobs.filter((job) => job.status === "completed" || job.status === "cancelled")
+  finished.forEach((job) => runtimes.delete(job.id))
+  jobs = jobs.filter((job) => !finished.includes(job))
+  notify()
+}
+
+export function getJobs(): Job[] {
+  return jobs
+}
+
+export function subscribeJobs(listener: JobListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function countTasks(job: Job) {
+  const count = (status: TaskStatus) => job.tasks.filter((task) => task.status === status).length
+  return {
+    total: job.tasks.length,
+    done: job.tasks.filter((task) => task.status !== "pending" && task.status !== "running").length,
+    succeeded: count("succeeded"),
+    failed: count("failed"),
+    cancelled: count("cancelled"),
+  }
+}
@@ -0,0 +1,285 @@
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+import { deleteItem, upsertVariable, type WriteOutcome } from "@/lib/bulk-actions"
+import { describeError, type GitHubClient } from "@/lib/github-client"
+import { repositoryOrEnvironmentScope } from "@/lib/github-types"
+import type { JobTaskInput } from "@/lib/job-engine"
+
+// Desired state file, YAML or JSON:
+//
+// repositories:
+//   api:
+//     variables: { LOG_LEVEL: info }      # repository-level
+//     secrets: [SENTRY_DSN]
+//     environments:
+//       production:
+//         variables: { API_URL: https://api.example.com }
+//         secrets: [DB_PASSWORD]
+//
+// Secrets are listed by name only; values are entered when applying.
+
+const valuesSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean()]).transform((value) => String(value)),
+)
+
+const scopeSchema = z.object({
+  variables: valuesSchema.optional(),
+  secrets: z.array(z.string()).optional(),
+})
+
+const manifestSchema = z.object({
+  repositories: z.record(
+    z.string(),
+    scopeSchema
+      .extend({
+        environments: z.record(z.string(), scopeSchema.nullable()).optional(),
+      })
+      .nullable(),
+  ),
+})
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ManifestError"
+  }
+}
+
+// One repository or repository/environment pair the manifest manages
+export interface ManifestTarget {
+  repo: string
+  // Undefined for repository-level values
+  environment?: string
+  variables: Record<string, string>
+  secrets: string[]
+}
+
+export function parseManifest(text: string): ManifestTarget[] {
+  let raw: unknown
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    raw = parseYaml(text)
+  } catch (error) {
+    throw new ManifestError(`Could not parse manifest: ${describeError(error)}`)
+  }
+
+  const parsed = manifestSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new ManifestError(`Invalid manifest at "${issue.path.join(".") || "(root)"}": ${issue.message}`)
+  }
+
+  const targets: ManifestTarget[] = []
+  for (const [repo, repoConfig] of Object.entries(parsed.data.repositories)) {
+    if (repoConfig?.variables || repoConfig?.secrets) {
+      targets.push({ repo, variables: repoConfig.variables || {}, secrets: repoConfig.secrets || [] })
+    }
+    for (const [environment, envConfig] of Object.entries(repoConfig?.environments || {})) {
+      targets.push({
+        repo,
+        environment,
+        variables: envConfig?.variables || {},
+        secrets: envConfig?.secrets || [],
+      })
+    }
+  }
+  return targets
+}
+
+export interface LiveTarget {
+  repo: string
+  environment?: string
+  // False when the environment does not exist yet
+  exists: boolean
+  variables: Record<string, string>
+  secrets: string[]
+  // Set when the target could not be read; its state is unknown and nothing is planned for it
+  error?: string
+}
+
+// Reads the current secrets and variables of every manifest target. A target that fails to
+// load is marked with its error instead of failing the others.
+export async function fetchLiveState(client: GitHubClient, owner: string, targets: ManifestTarget[]) {
+  return Promise.all(
+    targets.map(async ({ repo, environment }): Promise<LiveTarget> => {
+      try {
+        if (environment && !(await client.getEnvironment(owner, repo, environment))) {
+          return { repo, environment, exists: false, variables: {}, secrets: [] }
+        }
+        const scope = repositoryOrEnvironmentScope(owner, repo, environment)
+        const [secrets, variables] = await Promise.all([client.listSecrets(scope), client.listVariables(scope)])
+        return {
+          repo,
+          environment,
+          exists: true,
+          variables: Object.fromEntries(variables.map((variable) => [variable.name, variable.value])),
+          secrets: secrets.map((secret) => secret.name),
+        }
+      } catch (error) {
+        console.error(`Error reading ${repo}/${environment ?? ""}:`, error)
+        return { repo, environment, exists: false, variables: {}, secrets: [], error: describeError(error) }
+      }
+    }),
+  )
+}
+
+export type PlanAction = "create" | "update" | "delete"
+
+export interface PlanChange {
+  action: PlanAction
+  kind: "environment" | "variable" | "secret"
+  repo: string
+  environment?: string
+  name: string
+  value?: string
+  previousValue?: string
+}
+
+// Diffs desired against live state. With `prune`, values that exist but are not in the
+// manifest are deleted; otherwise they are left alone. Targets that could not be read are skipped.
+export function computePlan(targets: ManifestTarget[], live: LiveTarget[], prune: boolean): PlanChange[] {
+  const changes: PlanChange[] = []
+  const liveByKey = new Map(live.map((target) => [`${target.repo}/${target.environment ?? ""}`, target]))
+
+  for (const target of targets) {
+    const current = liveByKey.get(`${target.repo}/${target.environment ?? ""}`)
+    if (current?.error) {
+      continue
+    }
+    const location = { repo: target.repo, environment: target.environment }
+
+    if (target.environment && !current?.exists) {
+      changes.push({ action: "create", kind: "environment", ...location, name: target.environment })
+    }
+
+    const liveVariables = current?.variables || {}
+    for (const [name, value] of Object.entries(target.variables)) {
+      if (!(name in liveVariables)) {
+        changes.push({ action: "create", kind: "variable", ...location, name, value })
+      } else if (liveVariables[name] !== value) {
+        changes.push({
+          action: "update",
+          kind: "variable",
+          ...location,
+          name,
+          value,
+          previousValue: liveVariables[name],
+        })
+      }
+    }
+
+    const liveSecrets = new Set(current?.secrets || [])
+    for (const name of target.secrets) {
+      if (!liveSecrets.has(name)) {
+        changes.push({ action: "create", kind: "secret", ...location, name })
+      }
+    }
+
+    if (prune) {
+      for (const [name, value] of Object.entries(liveVariables)) {
+        if (!(name in target.variables)) {
+          changes.push({ action: "delete", kind: "variable", ...location, name, previousValue: value })
+        }
+      }
+      for (const name of liveSecrets) {
+        if (!target.secrets.includes(name)) {
+          changes.push({ action: "delete", kind: "secret", ...location, name })
+        }
+      }
+    }
+  }
+
+  return changes
+}
+
+const ACTION_OUTCOMES: Record<PlanAction, WriteOutcome> = { create: "created", update: "updated", delete: "deleted" }
+
+export function describeLocation(change: PlanChange) {
+  return change.environment ? `${change.repo}/${change.environment}` : `${change.repo} (repository)`
+}
+
+export function describeChange(change: PlanChange) {
+  return `${change.action} ${change.kind} ${change.name} in ${describeLocation(change)}`
+}
+
+// Writes one variable or secret change and resolves to what actually happened, e.g. "skipped"
+// for a deletion that found nothing. `secretValues` maps secret names to the values to write.
+// Updates and deletions go through the bulk helpers so they are recorded in the undo history.
+export async function applyValueChange(
+  client: GitHubClient,
+  owner: string,
+  change: PlanChange,
+  secretValues: Record<string, string>,
+): Promise<WriteOutcome> {
+  const scope = repositoryOrEnvironmentScope(owner, change.repo, change.environment)
+  if (change.action === "delete") {
+    return deleteItem(client, scope, change.kind === "secret" ? "secret" : "variable", change.name)
+  }
+  if (change.kind === "variable") {
+    if (change.action === "create") {
+      await client.createVariable(scope, change.name, change.value ?? "")
+      return "created"
+    }
+    return upsertVariable(client, scope, change.name, change.value ?? "", "overwrite")
+  }
+  const value = secretValues[change.name]
+  if (!value) {
+    throw new Error("No value provided")
+  }
+  await client.setSecret(scope, change.name, value)
+  return ACTION_OUTCOMES[change.action]
+}
+
+// One job task per change, environment changes first. Writes into an environment that the
+// same job creates wait for it, so the remaining tasks can run in parallel.
+export function planTasks(
+  changes: PlanChange[],
+  writeEnvironment: (change: PlanChange) => Promise<unknown>,
+  // Resolves to the outcome when it can differ from the planned action
+  writeValue: (change: PlanChange) => Promise<WriteOutcome | void>,
+): JobTaskInput[] {
+  const created = new Map<string, Promise<unknown>>()
+  const locationKey = (change: PlanChange) => `${change.repo}/${change.environment ?? ""}`
+
+  const environmentTasks = changes
+    .filter((change) => change.kind === "environment")
+    .map((change) => ({
+      label: describeChange(change),
+      run: async () => {
+        const write = writeEnvironment(change)
+        if (change.action === "create") {
+          created.set(locationKey(change), write)
+        }
+        await write
+        return ACTION_OUTCOMES[change.action]
+      },
+    }))
+
+  const valueTasks = changes
+    .filter((change) => change.kind !== "environment")
+    .map((change) => ({
+      label: describeChange(change),
+      run: async () => {
+        await created.get(locationKey(change))?.catch(() => {
+          throw new Error("Environment could not be created")
+        })
+        return (await writeValue(change)) || ACTION_OUTCOMES[change.action]
+      },
+    }))
+
+  return [...environmentTasks, ...valueTasks]
+}
+
+export function applyPlanTasks(
+  client: GitHubClient,
+  owner: string,
+  changes: PlanChange[],
+  secretValues: Record<string, string>,
+): JobTaskInput[] {
+  return planTasks(
+    changes,
+    (change) => client.createOrUpdateEnvironment(owner, change.repo, change.name),
+    (change) => applyValueChange(client, owner, change, secretValues),
+  )
+}
@@ -0,0 +1,111 @@
+import type { Repository } from "@/lib/github-types"
+import { hasEnvironment, type EnvironmentsByRepository } from "@/lib/environment-names"
+
+// Search, filters and sort order for the repository grid. Select-style fields use "all"
+// to mean "no filter".
+export interface RepositoryFilter {
+  query: string
+  visibility: "all" | "private" | "public"
+  archived: "exclude" | "include" | "only"
+  topic: string
+  language: string
+  environment: string
+  sort: "name" | "updated"
+}
+
+export const DEFAULT_REPOSITORY_FILTER: RepositoryFilter = {
+  query: "",
+  visibility: "all",
+  archived: "include",
+  topic: "all",
+  language: "all",
+  environment: "all",
+  sort: "updated",
+}
+
+export interface FilterPreset {
+  name: string
+  filter: RepositoryFilter
+}
+
+const presetsKey = (organization: string) => `repositoryFilter.presets.${organization}`
+
+export function isDefaultFilter(filter: RepositoryFilter): boolean {
+  return (Object.keys(DEFAULT_REPOSITORY_FILTER) as Array<keyof RepositoryFilter>).every(
+    (key) => key === "sort" || filter[key] === DEFAULT_REPOSITORY_FILTER[key],
+  )
+}
+
+export function filterRepositories<T extends Repository>(
+  repositories: T[],
+  filter: RepositoryFilter,
+  environments: EnvironmentsByRepository,
+): T[] {
+  const query = filter.query.trim().toLowerCase()
+
+  const matching = repositories.filter((repo) => {
+    if (query && !repo.name.toLowerCase().includes(query) && !repo.description?.toLowerCase().includes(query)) {
+      return false
+    }
+    if (filter.visibility !== "all" && repo.private !== (filter.visibility === "private")) {
+      return false
+    }
+    if (filter.archived !== "include" && !!repo.archived !== (filter.archived === "only")) {
+      return false
+    }
+    if (filter.topic !== "all" && !repo.topics?.includes(filter.topic)) {
+      return false
+    }
+    if (filter.language !== "all" && repo.language !== filter.language) {
+      return false
+    }
+    if (filter.environment !== "all" && !hasEnvironment(environments, repo.name, filter.environment)) {
+      return false
+    }
+    return true
+  })
+
+  return matching.sort((a, b) =>
+    filter.sort === "name"
+      ? a.name.localeCompare(b.name)
+      : new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime(),
+  )
+}
+
+// Sorted distinct topics and languages, for the filter dropdowns
+export function repositoryTopics(repositories: Repository[]): string[] {
+  return Array.from(new Set(repositories.flatMap((repo) => repo.topics || []))).sort()
+}
+
+export function repositoryLanguages(repositories: Repository[]): string[] {
+  return Array.from(new Set(repositories.flatMap((repo) => (repo.language ? [repo.language] : [])))).sort()
+}
+
+export function getFilterPresets(organization: string): FilterPreset[] {
+  try {
+    const raw = localStorage.getItem(presetsKey(organization))
+    // Fill in fields added after a preset was saved
+    return raw
+      ? (JSON.parse(raw) as FilterPreset[]).map((preset) => ({
+          ...preset,
+          filter: { ...DEFAULT_REPOSITORY_FILTER, ...preset.filter },
+        }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+// Saving under an existing name replaces that preset
+export function saveFilterPreset(organization: string, name: string, filter: RepositoryFilter): FilterPreset[] {
+  const presets = [...getFilterPresets(organization).filter((preset) => preset.name !== name), { name, filter }]
+  presets.sort((a, b) => a.name.localeCompare(b.name))
+  localStorage.setItem(presetsKey(organization), JSON.stringify(presets))
+  return presets
+}
+
+export function deleteFilterPreset(organization: string, name: string): FilterPreset[] {
+  const presets = getFilterPresets(organization).filter((preset) => preset.name !== name)
+  localStorage.setItem(presetsKey(organization), JSON.stringify(presets))
+  return presets
+}
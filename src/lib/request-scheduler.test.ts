@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { GitHubTransport } from "@/lib/github-client"
+import { createRequestScheduler, getRequestScheduler, moveRequestScheduler } from "@/lib/request-scheduler"
+
+// A clock that only moves when the scheduler sleeps
+function fakeClock() {
+  let time = 1_000_000
+  const sleeps: number[] = []
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async (ms: number) => {
+      sleeps.push(ms)
+      time += ms
+    },
+  }
+}
+
+function stubTransport(responses: Array<() => Response>) {
+  const calls: string[] = []
+  const transport: GitHubTransport = async (url, init) => {
+    calls.push(`${init.method || "GET"} ${url}`)
+    const next = responses.shift()
+    if (!next) {
+      throw new Error(`Unexpected request: ${url}`)
+    }
+    return next()
+  }
+  return { calls, transport }
+}
+
+const status =
+  (code: number, headers: Record<string, string> = {}) =>
+  () =>
+    new Response(null, { status: code, headers })
+
+describe("createRequestScheduler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("waits for retry-after before retrying a 429", async () => {
+    const clock = fakeClock()
+    const { calls, transport } = stubTransport([status(429, { "retry-after": "7" }), status(200)])
+    const scheduler = createRequestScheduler({ transport, ...clock })
+
+    const response = await scheduler.transport("https://api.test/user", { method: "GET" })
+
+    expect(response.status).toBe(200)
+    expect(calls).toHaveLength(2)
+    expect(clock.sleeps).toEqual([7000])
+  })
+
+  it("retries a secondary rate limit 403 but not a permission 403", async () => {
+    const clock = fakeClock()
+    const { calls, transport } = stubTransport([
+      status(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(clock.now() / 1000 + 30) }),
+      status(200),
+      status(403),
+    ])
+    const scheduler = createRequestScheduler({ transport, ...clock })
+
+    expect((await scheduler.transport("https://api.test/a", { method: "PUT" })).status).toBe(200)
+    expect(clock.sleeps).toEqual([30_000])
+    expect((await scheduler.transport("https://api.test/b", { method: "PUT" })).status).toBe(403)
+    expect(calls).toHaveLength(3)
+  })
+
+  it("backs off exponentially on server errors and gives up after maxRetries", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    const clock = fakeClock()
+    const { calls, transport } = stubTransport([status(502), status(502), status(503), status(500)])
+    const scheduler = createRequestScheduler({ transport, maxRetries: 3, baseDelayMs: 100, ...clock })
+
+    const response = await scheduler.transport("https://api.test/user", { method: "GET" })
+
+    expect(response.status).toBe(500)
+    expect(calls).toHaveLength(4)
+    expect(clock.sleeps).toEqual([100, 200, 400])
+  })
+
+  it("does not retry server errors for POST", async () => {
+    const clock = fakeClock()
+    const { calls, transport } = stubTransport([status(502)])
+    const scheduler = createRequestScheduler({ transport, ...clock })
+
+    const response = await scheduler.transport("https://api.test/graphql", { method: "POST" })
+
+    expect(response.status).toBe(502)
+    expect(calls).toHaveLength(1)
+    expect(clock.sleeps).toEqual([])
+  })
+
+  it("surfaces the response instead of waiting longer than maxWaitMs", async () => {
+    const clock = fakeClock()
+    const { calls, transport } = stubTransport([status(429, { "retry-after": "120" })])
+    const scheduler = createRequestScheduler({ transport, maxWaitMs: 60_000, ...clock })
+
+    const response = await scheduler.transport("https://api.test/user", { method: "GET" })
+
+    expect(response.status).toBe(429)
+    expect(calls).toHaveLength(1)
+    expect(clock.sleeps).toEqual([])
+  })
+
+  it("retries network errors for reads only", async () => {
+    const clock = fakeClock()
+    const failure = () => {
+      throw new TypeError("fetch failed")
+    }
+    const { calls, transport } = stubTransport([failure, status(200), failure])
+    const scheduler = createRequestScheduler({ transport, baseDelayMs: 100, ...clock })
+
+    expect((await scheduler.transport("https://api.test/user", { method: "GET" })).status).toBe(200)
+    await expect(scheduler.transport("https://api.test/user", { method: "PATCH" })).rejects.toThrow("fetch failed")
+    expect(calls).toHaveLength(3)
+    expect(clock.sleeps).toEqual([100])
+  })
+
+  it("publishes the rate limit GitHub reports", async () => {
+    const clock = fakeClock()
+    const headers = { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "4990", "x-ratelimit-reset": "2000" }
+    const { transport } = stubTransport([status(200, headers)])
+    const scheduler = createRequestScheduler({ transport, ...clock })
+    const listener = vi.fn()
+    scheduler.subscribe(listener)
+
+    await scheduler.transport("https://api.test/user", { method: "GET" })
+
+    const expected = { limit: 5000, remaining: 4990, used: 10, resetAt: 2_000_000 }
+    expect(scheduler.getRateLimit()).toEqual(expected)
+    expect(listener).toHaveBeenCalledWith(expected)
+  })
+})
+
+describe("moveRequestScheduler", () => {
+  it("hands the old token's scheduler to its replacement", () => {
+    const scheduler = getRequestScheduler("old-token")
+
+    moveRequestScheduler("old-token", "new-token")
+
+    expect(getRequestScheduler("new-token")).toBe(scheduler)
+    expect(getRequestScheduler("old-token")).not.toBe(scheduler)
+  })
+})
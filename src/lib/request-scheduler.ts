@@ -0,0 +1,194 @@
+import type { GitHubTransport } from "@/lib/github-client"
+
+export interface RateLimitState {
+  limit: number
+  remaining: number
+  used: number
+  // Epoch milliseconds at which the quota resets
+  resetAt: number
+}
+
+export interface RequestSchedulerOptions {
+  transport?: GitHubTransport
+  maxConcurrent?: number
+  maxRetries?: number
+  // Base delay for exponential backoff when GitHub gives no hint
+  baseDelayMs?: number
+  // Never wait longer than this for a quota reset; the failure is surfaced instead
+  maxWaitMs?: number
+  sleep?: (ms: number) => Promise<void>
+  now?: () => number
+}
+
+type RateLimitListener = (state: RateLimitState | null) => void
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "DELETE"]
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+function readRateLimit(headers: Headers): RateLimitState | null {
+  const remaining = headers.get("x-ratelimit-remaining")
+  const limit = headers.get("x-ratelimit-limit")
+  const reset = headers.get("x-ratelimit-reset")
+  if (remaining === null || limit === null) {
+    return null
+  }
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(headers.get("x-ratelimit-used") ?? Number(limit) - Number(remaining)),
+    resetAt: reset ? Number(reset) * 1000 : 0,
+  }
+}
+
+// Wraps a transport so that every request goes through one queue: at most `maxConcurrent`
+// requests in flight, a shared pause when GitHub reports an exhausted quota or asks us to
+// back off, and retries for rate-limited (403/429) and server (5xx) responses.
+export function createRequestScheduler({
+  transport = (url, init) => fetch(url, init),
+  maxConcurrent = 6,
+  maxRetries = 3,
+  baseDelayMs = 1000,
+  maxWaitMs = 60_000,
+  sleep = defaultSleep,
+  now = Date.now,
+}: RequestSchedulerOptions = {}) {
+  let active = 0
+  const waiting: Array<() => void> = []
+  let pausedUntil = 0
+  let rateLimit: RateLimitState | null = null
+  const listeners = new Set<RateLimitListener>()
+
+  // A released slot is handed straight to the next waiter without being freed, so a new
+  // caller cannot take it in the microtask before the waiter resumes
+  const acquire = async () => {
+    if (active >= maxConcurrent) {
+      await new Promise<void>((resolve) => waiting.push(resolve))
+      return
+    }
+    active++
+  }
+
+  const release = () => {
+    const next = waiting.shift()
+    if (next) {
+      next()
+    } else {
+      active--
+    }
+  }
+
+  const waitForPause = async () => {
+    while (pausedUntil > now()) {
+      await sleep(pausedUntil - now())
+    }
+  }
+
+  const updateRateLimit = (response: Response) => {
+    const state = readRateLimit(response.headers)
+    if (state) {
+      rateLimit = state
+      listeners.forEach((listener) => listener(rateLimit))
+    }
+  }
+
+  // How long to wait before retrying, or null when the response should be returned as-is
+  const retryDelay = (response: Response, method: string, attempt: number): number | null => {
+    const retryAfter = response.headers.get("retry-after")
+    const remaining = response.headers.get("x-ratelimit-remaining")
+    const isRateLimited =
+      response.status === 429 || (response.status === 403 && (retryAfter !== null || remaining === "0"))
+    const isServerError = response.status >= 500 && IDEMPOTENT_METHODS.includes(method)
+
+    if (attempt >= maxRetries || (!isRateLimited && !isServerError)) {
+      return null
+    }
+
+    let delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs
+    if (retryAfter !== null) {
+      delay = Number(retryAfter) * 1000
+    } else if (remaining === "0") {
+      const reset = response.headers.get("x-ratelimit-reset")
+      if (reset) {
+        delay = Number(reset) * 1000 - now()
+      }
+    }
+
+    if (delay > maxWaitMs) {
+      return null
+    }
+    if (isRateLimited) {
+      // Everyone else has to wait as well, otherwise they burn the same quota
+      pausedUntil = Math.max(pausedUntil, now() + delay)
+    }
+    return Math.max(delay, 0)
+  }
+
+  const scheduled: GitHubTransport = async (url, init) => {
+    const method = (init.method || "GET").toUpperCase()
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForPause()
+      await acquire()
+
+      let response: Response
+      try {
+        response = await transport(url, init)
+      } catch (error) {
+        release()
+        // Only reads are safe to replay when we cannot tell whether the write landed
+        if (attempt >= maxRetries || !["GET", "HEAD"].includes(method)) {
+          throw error
+        }
+        await sleep(baseDelayMs * 2 ** attempt)
+        continue
+      }
+      release()
+
+      updateRateLimit(response)
+      const delay = retryDelay(response, method, attempt)
+      if (delay === null) {
+        return response
+      }
+      await sleep(delay)
+    }
+  }
+
+  return {
+    transport: scheduled,
+
+    getRateLimit: () => rateLimit,
+
+    subscribe: (listener: RateLimitListener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>
+
+// Quotas are tracked per token, so every component using the same token shares one scheduler
+const schedulers = new Map<string, RequestScheduler>()
+
+export function getRequestScheduler(token: string): RequestScheduler {
+  let scheduler = schedulers.get(token)
+  if (!scheduler) {
+    scheduler = createRequestScheduler()
+    schedulers.set(token, scheduler)
+  }
+  return scheduler
+}
+
+// For tokens that replace each other, such as a GitHub App installation's hourly tokens: the
+// new token shares the quota, so it keeps the queue, rate limit and any pause of the old one
+export function moveRequestScheduler(from: string, to: string) {
+  const scheduler = schedulers.get(from)
+  if (!scheduler || from === to) {
+    return
+  }
+  schedulers.delete(from)
+  schedulers.set(to, scheduler)
+}
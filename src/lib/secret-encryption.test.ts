@@ -0,0 +1,33 @@
+import sodium from "libsodium-wrappers"
+import { describe, expect, it } from "vitest"
+import { sealSecretValue } from "@/lib/secret-encryption"
+
+const BASE64 = () => sodium.base64_variants.ORIGINAL
+
+describe("sealSecretValue", () => {
+  it("seals a value that opens with the matching private key", async () => {
+    await sodium.ready
+    const { publicKey, privateKey } = sodium.crypto_box_keypair()
+
+    const sealed = await sealSecretValue("s3cr3t ✓", { key_id: "key-1", key: sodium.to_base64(publicKey, BASE64()) })
+
+    expect(sealed.key_id).toBe("key-1")
+    const opened = sodium.crypto_box_seal_open(
+      sodium.from_base64(sealed.encrypted_value, BASE64()),
+      publicKey,
+      privateKey,
+    )
+    expect(sodium.to_string(opened)).toBe("s3cr3t ✓")
+  })
+
+  it("uses a fresh ephemeral key for every value", async () => {
+    await sodium.ready
+    const { publicKey } = sodium.crypto_box_keypair()
+    const key = { key_id: "key-1", key: sodium.to_base64(publicKey, BASE64()) }
+
+    const first = await sealSecretValue("same", key)
+    const second = await sealSecretValue("same", key)
+
+    expect(first.encrypted_value).not.toBe(second.encrypted_value)
+  })
+})
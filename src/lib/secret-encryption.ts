@@ -0,0 +1,21 @@
+import sodium from "libsodium-wrappers"
+import type { SecretsPublicKey } from "@/lib/github-types"
+
+export interface EncryptedSecret {
+  encrypted_value: string
+  key_id: string
+}
+
+// Seals a value with a libsodium sealed box (crypto_box_seal), as required by the GitHub secrets API.
+// Pure apart from libsodium initialisation, so it can be exercised offline with a known keypair.
+export async function sealSecretValue(value: string, publicKey: SecretsPublicKey): Promise<EncryptedSecret> {
+  await sodium.ready
+
+  const keyBytes = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL)
+  const sealed = sodium.crypto_box_seal(sodium.from_string(value), keyBytes)
+
+  return {
+    encrypted_value: sodium.to_base64(sealed, sodium.base64_variants.ORIGINAL),
+    key_id: publicKey.key_id,
+  }
+}
@@ -0,0 +1,106 @@
+import type { GitHubClient } from "@/lib/github-client"
+import { organizationScope, repositoryOrEnvironmentScope, type ActionsScope } from "@/lib/github-types"
+
+// Rotation reminders and history. Only names, locations and timestamps are stored; secret
+// values never leave the rotate dialog.
+
+export const DEFAULT_ROTATION_MAX_AGE_DAYS = 90
+
+const MAX_AGE_STORAGE_KEY = "rotation.maxAgeDays"
+const HISTORY_STORAGE_KEY = "rotation.history"
+const MAX_HISTORY_RECORDS = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// An organization secret when `repository` is unset, a repository secret when `environment` is unset
+export interface RotationLocation {
+  repository?: string
+  environment?: string
+}
+
+export interface RotationRecord {
+  // The rotation job; retries update the record with the same id instead of adding another
+  id?: string
+  organization: string
+  secretName: string
+  // Epoch milliseconds
+  rotatedAt: number
+  locations: Array<RotationLocation & { success: boolean; error?: string }>
+}
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function getRotationMaxAgeDays(): number {
+  const days = readStorage<number>(MAX_AGE_STORAGE_KEY, DEFAULT_ROTATION_MAX_AGE_DAYS)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_ROTATION_MAX_AGE_DAYS
+}
+
+export function setRotationMaxAgeDays(days: number) {
+  localStorage.setItem(MAX_AGE_STORAGE_KEY, JSON.stringify(days))
+}
+
+export function secretAgeDays(updatedAt: string, now = Date.now()): number {
+  return Math.floor((now - new Date(updatedAt).getTime()) / DAY_MS)
+}
+
+export function isRotationDue(updatedAt: string, maxAgeDays: number, now = Date.now()): boolean {
+  return secretAgeDays(updatedAt, now) >= maxAgeDays
+}
+
+// Newest first
+export function getRotationHistory(organization: string, secretName?: string): RotationRecord[] {
+  return readStorage<RotationRecord[]>(HISTORY_STORAGE_KEY, [])
+    .filter((record) => record.organization === organization && (!secretName || record.secretName === secretName))
+    .sort((a, b) => b.rotatedAt - a.rotatedAt)
+}
+
+export function recordRotation(record: RotationRecord) {
+  const others = readStorage<RotationRecord[]>(HISTORY_STORAGE_KEY, []).filter(
+    (existing) => !record.id || existing.id !== record.id,
+  )
+  const history = [record, ...others].slice(0, MAX_HISTORY_RECORDS)
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+}
+
+export function rotationScope(organization: string, location: RotationLocation): ActionsScope {
+  return location.repository
+    ? repositoryOrEnvironmentScope(organization, location.repository, location.environment)
+    : organizationScope(organization)
+}
+
+export function describeRotationLocation(location: RotationLocation): string {
+  if (!location.repository) {
+    return "Organization"
+  }
+  return location.environment ? `${location.repository} / ${location.environment}` : location.repository
+}
+
+// Organization secrets are re-sent with their current visibility so rotating does not change who can use them
+export async function rotateSecret(
+  client: GitHubClient,
+  organization: string,
+  location: RotationLocation,
+  name: string,
+  value: string,
+) {
+  const scope = rotationScope(organization, location)
+  if (scope.type !== "organization") {
+    return client.setSecret(scope, name, value)
+  }
+  const current = await client.getSecret(scope, name)
+  if (!current?.visibility) {
+    throw new Error(`Organization secret ${name} no longer exists`)
+  }
+  const selected =
+    current.visibility === "selected"
+      ? (await client.listSelectedRepositories(organization, "secrets", name)).map((repo) => repo.id)
+      : undefined
+  return client.setSecret(scope, name, value, { visibility: current.visibility, selected_repository_ids: selected })
+}
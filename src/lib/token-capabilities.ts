@@ -0,0 +1,150 @@
+import type { GitHubClient, WriteEvent } from "@/lib/github-client"
+
+// What the current token is allowed to do. Classic and OAuth tokens report their scopes in
+// the `x-oauth-scopes` header; fine-grained and installation tokens do not, and can cover some
+// repositories but not others, so a write GitHub refuses only blocks that repository (or
+// organization) from then on.
+
+export type Capability = "organizations" | "environments" | "repositorySecrets" | "organizationSecrets"
+
+export type CapabilityState = "granted" | "denied" | "unknown"
+
+export interface CapabilityStatus {
+  state: CapabilityState
+  // Why the capability is denied, shown next to the disabled action
+  reason?: string
+}
+
+export interface TokenCapabilities {
+  // Null when the token does not report scopes
+  scopes: string[] | null
+  // From the scopes; applies everywhere
+  capabilities: Record<Capability, CapabilityStatus>
+  // Reasons GitHub refused writes, keyed by "owner/repo", or by "owner" for organization writes
+  refusals: Record<Capability, Record<string, string>>
+}
+
+// Where an action would write
+export interface CapabilityLocation {
+  owner: string
+  // Omit for organization-level writes
+  repository?: string
+}
+
+export const CAPABILITIES: Record<Capability, { label: string; scope: string }> = {
+  organizations: { label: "List organizations", scope: "read:org" },
+  environments: { label: "Create environments and edit protection rules", scope: "repo" },
+  repositorySecrets: { label: "Manage repository and environment secrets and variables", scope: "repo" },
+  organizationSecrets: { label: "Manage organization secrets and variables", scope: "admin:org" },
+}
+
+// Broader scopes that include the key
+const IMPLIED_BY: Record<string, string[]> = {
+  "read:org": ["write:org", "admin:org"],
+  "write:org": ["admin:org"],
+}
+
+type CapabilityListener = (capabilities: TokenCapabilities) => void
+
+const capabilitiesByToken = new Map<string, TokenCapabilities>()
+const listeners = new Map<string, Set<CapabilityListener>>()
+
+function hasScope(scopes: string[], scope: string): boolean {
+  return scopes.includes(scope) || (IMPLIED_BY[scope] || []).some((broader) => scopes.includes(broader))
+}
+
+export function capabilitiesFromScopes(scopes: string[] | null): TokenCapabilities {
+  const capabilities = {} as Record<Capability, CapabilityStatus>
+  for (const [capability, { scope }] of Object.entries(CAPABILITIES) as Array<[Capability, { scope: string }]>) {
+    if (scopes === null) {
+      capabilities[capability] = { state: "unknown" }
+    } else if (hasScope(scopes, scope)) {
+      capabilities[capability] = { state: "granted" }
+    } else {
+      capabilities[capability] = { state: "denied", reason: `The token is missing the ${scope} scope` }
+    }
+  }
+  return {
+    scopes,
+    capabilities,
+    refusals: { organizations: {}, environments: {}, repositorySecrets: {}, organizationSecrets: {} },
+  }
+}
+
+function locationKey({ owner, repository }: CapabilityLocation): string {
+  return repository ? `${owner}/${repository}` : owner
+}
+
+function publish(token: string, capabilities: TokenCapabilities) {
+  capabilitiesByToken.set(token, capabilities)
+  listeners.get(token)?.forEach((listener) => listener(capabilities))
+}
+
+export function getTokenCapabilities(token: string): TokenCapabilities | null {
+  return capabilitiesByToken.get(token) ?? null
+}
+
+export function subscribeTokenCapabilities(token: string, listener: CapabilityListener): () => void {
+  if (!listeners.has(token)) {
+    listeners.set(token, new Set())
+  }
+  listeners.get(token)!.add(listener)
+  return () => {
+    listeners.get(token)?.delete(listener)
+  }
+}
+
+// Reads the token's scopes once; later calls reuse the result
+export async function loadTokenCapabilities(client: GitHubClient, token: string): Promise<TokenCapabilities> {
+  const known = getTokenCapabilities(token)
+  if (known) {
+    return known
+  }
+  const capabilities = capabilitiesFromScopes(await client.getTokenScopes())
+  publish(token, capabilities)
+  return capabilities
+}
+
+function capabilityForWrite(event: WriteEvent): Capability {
+  if (event.objectType === "environment" || event.objectType === "deployment-branch-policy") {
+    return "environments"
+  }
+  return event.repository ? "repositorySecrets" : "organizationSecrets"
+}
+
+// Called with every write: GitHub's "Resource not accessible" 403 means the token lacks the
+// permission for this kind of write in that repository or organization. Other 403s (archived
+// repositories, rate limits) say nothing about it.
+export function noteWriteOutcome(token: string, event: WriteEvent) {
+  if (event.outcome !== "failure" || event.status !== 403 || !/resource not accessible/i.test(event.error || "")) {
+    return
+  }
+  const current = getTokenCapabilities(token) ?? capabilitiesFromScopes(null)
+  const capability = capabilityForWrite(event)
+  const key = locationKey({ owner: event.owner, repository: event.repository })
+  if (current.capabilities[capability].state === "denied" || current.refusals[capability][key]) {
+    return
+  }
+  publish(token, {
+    ...current,
+    refusals: {
+      ...current.refusals,
+      [capability]: { ...current.refusals[capability], [key]: `GitHub refused a write: ${event.error}` },
+    },
+  })
+}
+
+// The explanation for a disabled action, or null when it is allowed or not known to be denied.
+// Without a location only the scopes are considered.
+export function capabilityBlocker(
+  capabilities: TokenCapabilities | null,
+  capability: Capability,
+  location?: CapabilityLocation,
+): string | null {
+  const status = capabilities?.capabilities[capability]
+  if (status?.state === "denied") {
+    return `${CAPABILITIES[capability].label} is unavailable: ${status.reason}`
+  }
+  const refusal = location && capabilities?.refusals[capability][locationKey(location)]
+  return refusal ? `${CAPABILITIES[capability].label} is unavailable in ${locationKey(location)}: ${refusal}` : null
+}
@@ -0,0 +1,175 @@
+import type { GitHubClient, OrganizationItemKind } from "@/lib/github-client"
+import {
+  organizationScope,
+  repositoryOrEnvironmentScope,
+  type ActionsScope,
+  type Secret,
+  type Variable,
+  type VisibilitySettings,
+} from "@/lib/github-types"
+
+// Snapshots taken before a variable is overwritten or deleted, or a secret is deleted, so
+// the change can be reverted. Variable values are kept in localStorage; secret values can
+// never be read back, so secret entries only remember the name and need a new value.
+
+export interface UndoEntry {
+  id: string
+  // Epoch milliseconds
+  timestamp: number
+  organization: string
+  // Unset for organization variables
+  repository?: string
+  environment?: string
+  kind: "secret" | "variable"
+  name: string
+  action: "update" | "delete"
+  // The value before the change; only known for variables
+  previousValue?: string
+  // Who could use a deleted organization secret or variable, so it is recreated with the same access
+  settings?: VisibilitySettings
+  // Set once the entry has been restored
+  restoredAt?: number
+}
+
+// An entry that has not been recorded yet
+export type UndoSnapshot = Omit<UndoEntry, "id" | "timestamp">
+
+type UndoListener = (entries: UndoEntry[]) => void
+
+const STORAGE_KEY = "undoHistory.entries"
+const MAX_ENTRIES = 200
+// How long the "Undo" action stays in the toast after a change
+export const UNDO_TOAST_DURATION_MS = 10_000
+
+const listeners = new Set<UndoListener>()
+let entries: UndoEntry[] | null = null
+
+function load(): UndoEntry[] {
+  if (entries === null) {
+    try {
+      entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]") as UndoEntry[]
+    } catch {
+      entries = []
+    }
+  }
+  return entries
+}
+
+function save(next: UndoEntry[]) {
+  entries = next.slice(-MAX_ENTRIES)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch (error) {
+    console.error("Failed to persist undo history:", error)
+  }
+  listeners.forEach((listener) => listener(entries!))
+}
+
+// Call once the write has succeeded, so a failed change leaves nothing to undo
+export function recordUndo(snapshot: UndoSnapshot): UndoEntry {
+  const entry: UndoEntry = {
+    ...snapshot,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+  }
+  save([...load(), entry])
+  return entry
+}
+
+// Oldest first
+export function getUndoEntries(): UndoEntry[] {
+  return load()
+}
+
+export function subscribeUndoHistory(listener: UndoListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function undoLocation(scope: ActionsScope): Pick<UndoEntry, "organization" | "repository" | "environment"> {
+  switch (scope.type) {
+    case "organization":
+      return { organization: scope.org }
+    case "repository":
+      return { organization: scope.owner, repository: scope.repo }
+    case "environment":
+      return { organization: scope.owner, repository: scope.repo, environment: scope.environment }
+  }
+}
+
+async function organizationSettings(
+  client: GitHubClient,
+  org: string,
+  kind: OrganizationItemKind,
+  item: Secret | Variable,
+): Promise<VisibilitySettings | undefined> {
+  if (!item.visibility) {
+    return undefined
+  }
+  if (item.visibility !== "selected") {
+    return { visibility: item.visibility }
+  }
+  const repositories = await client.listSelectedRepositories(org, kind, item.name)
+  return { visibility: "selected", selected_repository_ids: repositories.map((repo) => repo.id) }
+}
+
+// Call before the write with the variable as it currently is, and pass the result to
+// `recordUndo` once the write succeeded
+export async function snapshotVariable(
+  client: GitHubClient,
+  scope: ActionsScope,
+  variable: Variable,
+  action: UndoEntry["action"],
+): Promise<UndoSnapshot> {
+  return {
+    ...undoLocation(scope),
+    kind: "variable",
+    name: variable.name,
+    action,
+    previousValue: variable.value,
+    settings:
+      scope.type === "organization" && action === "delete"
+        ? await organizationSettings(client, scope.org, "variables", variable)
+        : undefined,
+  }
+}
+
+// Organization secrets also remember who could use them, which GitHub requires when recreating them
+export async function snapshotSecretDeletion(
+  client: GitHubClient,
+  scope: ActionsScope,
+  secret: Secret,
+): Promise<UndoSnapshot> {
+  return {
+    ...undoLocation(scope),
+    kind: "secret",
+    name: secret.name,
+    action: "delete",
+    settings:
+      scope.type === "organization" ? await organizationSettings(client, scope.org, "secrets", secret) : undefined,
+  }
+}
+
+// Secrets need `secretValue` since the old value is unknown
+export async function restoreUndoEntry(client: GitHubClient, entry: UndoEntry, secretValue?: string): Promise<void> {
+  const scope = entry.repository
+    ? repositoryOrEnvironmentScope(entry.organization, entry.repository, entry.environment)
+    : organizationScope(entry.organization)
+  if (entry.kind === "secret") {
+    if (!secretValue) {
+      throw new Error(`A value is required to recreate secret ${entry.name}`)
+    }
+    await client.setSecret(scope, entry.name, secretValue, entry.settings)
+  } else {
+    // The variable may have been deleted or recreated since the change
+    const current = await client.getVariable(scope, entry.name)
+    if (current) {
+      await client.updateVariable(scope, entry.name, entry.previousValue ?? "")
+    } else {
+      await client.createVariable(scope, entry.name, entry.previousValue ?? "", entry.settings)
+    }
+  }
+  save(load().map((item) => (item.id === entry.id ? { ...item, restoredAt: Date.now() } : item)))
+}